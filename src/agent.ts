@@ -1,125 +1,276 @@
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
+import type { z } from "zod";
+import { zodToJsonSchema } from "@mastra/core/utils/zod-to-json";
 import { scrapeUrl } from "./tools/scrapeUrl";
 import { searchForPage } from "./tools/searchForPage";
 import { exploreNavigation } from "./tools/exploreNavigation";
+import { discoverSitemap } from "./tools/discoverSitemap";
+import { explorePricing } from "./tools/explorePricing";
+import { captureScreenshot } from "./tools/captureScreenshot";
+import { inspectSite } from "./tools/inspectSite";
+import { crawlSite } from "./tools/crawlSite";
 import { writeReport } from "./tools/writeReport";
-
-const SYSTEM_PROMPT = `You are a competitive intelligence research agent. Your job is to visit competitor websites, extract key information, and produce a thorough, detailed report.
+import { getModel } from "./models";
+import { getConfig } from "./config";
+import type { Config } from "./config";
+import { RECENT_LAUNCH_DAYS } from "./report/schema";
+
+/**
+ * The per-competitor field guide shared by the agent prompt and the pipeline's
+ * extraction step: what goes in each profile field, the configured sections and
+ * comparison rows, and the citation rules.
+ */
+function profileGuide(config: Config): string {
+  const { report } = config;
+  const sections =
+    report.sections.length > 0
+      ? "- **sections** — one entry per section below, titled exactly as given:\n" +
+        report.sections.map((s) => `  - "${s.title}": ${s.description}`).join("\n") +
+        "\n"
+      : "";
+  const customRows = report.comparisonRows.filter((r) => !r.field);
+  const comparison =
+    customRows.length > 0
+      ? "- **comparison** — one entry per comparison-table row below, with the row named exactly as given:\n" +
+        customRows.map((r) => `  - "${r.label}": ${r.description}`).join("\n") +
+        "\n"
+      : "";
+  const categories = report.featureCategories.map((c) => `"${c}"`).join(", ");
+  const since = new Date(Date.now() - RECENT_LAUNCH_DAYS * 86400000).toISOString().slice(0, 10);
+  // Launches are only researched when a topic crawls for them
+  const launches = config.topics.some((t) => t.tool === "crawl-site")
+    ? `- **recentLaunches** — product launches and announcements dated within the last ${RECENT_LAUNCH_DAYS} days (on or after ${since}), newest first, from crawl-site entries: title, date as YYYY-MM-DD, a one-sentence summary ending with the entry's [S#], and its url. Leave it empty if nothing that recent was found.\n`
+    : "";
+
+  return `For each competitor profile:
+- **overview** — 3-5 sentences: what the company does, when founded, headquarters, notable clients or scale metrics (e.g. "used by X companies"). Also fill **founded**, **headquarters** and **notableClients**.
+- **positioning** — how they position themselves, who they target, their main value proposition, and direct **quotes** from their homepage or about page if available.
+- **pricing** — ALL tiers with prices and limits. For each tier give the price as displayed, the numeric amount and currency when there is one, and the billing period. Note free tiers, trials and enterprise/custom pricing. If pricing is not publicly available, set publiclyAvailable to false and say so in notes. When explore-pricing returned several variants, record the price for each billing period / currency you saw (e.g. a tier per billing period, or both prices in the tier's price text) and cite the variant's sourceId.
+- **featureGroups** — features grouped by category (e.g. ${categories}), each with a brief description of what it does — not just names.
+- **integrations** — platforms, languages, or third-party tools they integrate with.
+- **certifications** and **techSignals** — certifications (SOC 2, ISO 27001, ...), uptime, global coverage, API style. Also fill **globalCoverage**. Take detected frameworks, CDN/hosting, analytics, chat, A/B testing and payment widgets, security headers, status/trust-center pages and schema.org data from the site inspection, citing its sourceId.
+${launches}- **keyDifferentiator**, **strengths** and **weaknesses**.
+${sections}${comparison}
+Use "Unknown" (or an empty list) for anything you could not find — never invent values.
+
+**Citations:** every scrape-url result has a sourceId (S1, S2, ...). Put the matching marker right after each claim it supports, footnote-style — e.g. "Founded in 2010 in San Francisco [S1]." or a tier price of "$29/mo [S4]". Every number and every quote MUST be cited, and must appear in the cited page exactly as written — copy figures and quotes verbatim rather than paraphrasing them. Uncited or unmatched quotes and figures are flagged in the report.`;
+}
+
+/**
+ * The per-topic research steps (b, c, ...) that follow the homepage scrape,
+ * generated from the configured topics.
+ */
+function topicSteps(config: Config): string {
+  const { topics } = config;
+  const letter = (i: number) => String.fromCharCode("b".charCodeAt(0) + i);
+
+  const steps = topics.map((t, i) => {
+    const [keyword] = t.keywords;
+    return (
+      `   ${letter(i)}. **${t.name}** — use **search-for-page** on the homepage with topic "${t.name}" (it searches ${t.keywords.map((k) => `"${k}"`).join(", ")} ` +
+      `plus synonyms and translations) and take the top-ranked match. If that finds nothing, search once more with seedUrls set to hub pages you already found on the site, ` +
+      `then use **discover-sitemap** with keyword "${keyword}", and only then **explore-navigation**. ` +
+      `If a page is found, use **${t.tool}** on it to extract ${t.extract}.`
+    );
+  });
+  const pricingTool = topics.some((t) => t.tool === "explore-pricing")
+    ? "\n   Use **explore-pricing** (not scrape-url) for pricing pages — it flips monthly/annual toggles and currency selectors and expands \"compare all features\" tables, so you see every price variant."
+    : "";
+  const crawlTool = topics.some((t) => t.tool === "crawl-site")
+    ? "\n   Use **crawl-site** (not scrape-url) on changelog, blog, newsroom and release-notes pages — it follows their links a few levels deep (pass include patterns such as \"/blog/**\" to keep it on the right section) and returns dated entries."
+    : "";
+  const screenshots =
+    '\n   Use **capture-screenshot** for what stakeholders will want to see: the homepage hero (mode "viewport") and the pricing table ' +
+    '(mode "element" with a selector for the table, or "full-page"). Add a "mobile" capture only where the responsive design matters. At most 4 screenshots per competitor.';
+
+  return `   a. Use **scrape-url** on the homepage to get an overview of the company and its positioning, then **inspect-site** on the homepage once for tech-stack, infrastructure and compliance signals.
+${steps.join("\n")}${pricingTool}${crawlTool}${screenshots}
+   If the competitor lists known pages for a topic, or a URL you were given is already a specific subpage, read it directly without searching.`;
+}
+
+/** How our own product is named in prompts, for runs with a `self` entry. */
+export function selfLabel(config: Config): string | null {
+  const { self } = config;
+  return self ? `${self.name ? `${self.name} — ` : ""}${self.url}` : null;
+}
+
+/** The gap-analysis fields, shared by the report guide and the pipeline's gap-analysis step. */
+export const GAP_ANALYSIS_GUIDE = `**gapAnalysis** — written from our point of view, comparing our product (self) with the competitors:
+- **missingFeatures** — features and capabilities competitors have that we lack, the most widespread first, with the competitors that have each one and a note citing their page's [S#].
+- **pricing** — 2-4 sentences on where our pricing sits against the competitors' comparable tiers (same billing period and currency), tier by tier. The report adds a table placing each of our tiers from the numeric amounts, so fill amount, currency and billingPeriod of every tier.
+- **messagingOverlap** — claims and messages we share with competitors, e.g. the same "set up in minutes" promise, with quotes and [S#] markers showing how close their wording is to ours.`;
+
+/** What write-report expects: the profile field guide plus the summary. */
+function reportGuide(config: Config): string {
+  const self = selfLabel(config);
+  const ours = self
+    ? `
+
+**self** — the profile of our own product, ${self}, filled exactly like a competitor's from the pages read on our site. It gets the first column of the comparison table. Don't repeat it in competitors.
+
+${GAP_ANALYSIS_GUIDE}`
+    : "";
+  const summary = self
+    ? "**summary** — 5-8 sentences of recommendations for our team, not a neutral summary: where we stand against each competitor, which gaps to close first, what to change in our pricing, and how to sharpen our messaging where it overlaps."
+    : "**summary** — 5-8 sentences: who stands out and why, key gaps and opportunities, which competitor is strongest in which area, and any actionable takeaways.";
+
+  return `## Report Data
+
+**write-report** takes the report as structured data, not markdown: one profile per competitor plus a final summary. It saves the data as JSON and renders the markdown report from it (including the comparison table), so fill every field carefully. Be as detailed as possible — include specific numbers, plan names, feature lists, and direct quotes where relevant.
+
+${profileGuide(config)}
+
+**screenshots** — for each competitor, the capture-screenshot results worth showing, with the screenshot path exactly as returned and a short caption. They are embedded in the report under the competitor.${ours}
+
+${summary}`;
+}
+
+const TOOL_GUIDELINES = [
+  "**Do NOT guess URLs.** Always use search-for-page first to discover sub-page URLs before scraping them.",
+  "**Do NOT call write-report until all competitors have been fully researched.**",
+  "If scrape-url returns an HTTP error (4xx/5xx), note it and move on — do not retry the same URL.",
+  "scrape-url returns long pages in chunks. If the result has a nextOffset and the outline shows sections you still need (e.g. a comparison table or FAQ), call scrape-url again with that offset or with the section heading. Don't page through sections you don't need.",
+  "If a tool reports a page as blocked by robots.txt, do not try to reach it another way — note that it could not be accessed and move on.",
+  'If a tool reports "Auth failed for <domain>", the login for that site did not work and every page on it will fail the same way — say in the report that its gated pages could not be reached, and research the rest.',
+  "**NEVER call the same tool with the same arguments twice.** Results are cached and will not change. If search-for-page returned 0 results for a topic, do NOT retry it with other keywords — it already searched the topic's synonyms and translations.",
+  "If search-for-page returns zero matches for a topic, try it exactly once more with seedUrls (hub pages already found on that site, e.g. the product or company page). If that also returns 0, use **discover-sitemap**, and only then **explore-navigation** as a fallback.",
+  "search-for-page ranks its matches with a score and the reasons for it — take the top one unless its reasons show it is the wrong kind of page (e.g. a blog post rather than the pricing page).",
+  'discover-sitemap results are cached per site — call it again with a different keyword rather than re-running explore-navigation. Prefer the shallowest matching URL (e.g. /pricing over /blog/pricing-tips), and pass a locale (e.g. "en") when the sitemap lists many languages.',
+  "Only use explore-navigation once per competitor site — it already collects all discoverable nav links in one pass.",
+  "**After you have used explore-navigation for a site, do NOT call search-for-page on that site again.** Use the links from explore-navigation results directly.",
+  "Once you have gathered data from the homepage + each topic's page for ALL competitors, proceed immediately to write-report. Do not keep searching.",
+  "Keep your reasoning concise in tool calls — let the tools do the heavy lifting.",
+];
+
+function toolGuidelines(withReport: boolean): string {
+  const lines = withReport ? TOOL_GUIDELINES : TOOL_GUIDELINES.filter((line) => !line.includes("write-report"));
+  return `## Tool Usage Guidelines
+
+${lines.map((line) => `- ${line}`).join("\n")}`;
+}
+
+/**
+ * Generates the system prompt from the project config: one workflow step per
+ * research topic, plus the configured feature categories, report sections and
+ * comparison-table rows.
+ */
+export function buildSystemPrompt(config: Config): string {
+  const industry = config.report.industry ? ` in the ${config.report.industry} industry` : "";
+
+  return `You are a competitive intelligence research agent. Your job is to visit competitor websites${industry}, extract key information, and produce a thorough, detailed report.
 
 ## Workflow (follow this order)
 
-1. For each competitor URL you are given:
-   a. Use **scrape-url** on the homepage to get an overview of the company and its positioning.
-   b. Use **search-for-page** on the homepage to find their pricing page (keyword: "pricing").
-   c. If search-for-page returns 0 results, use **explore-navigation** on the homepage to discover links hidden behind JavaScript menus, then look through the results for the relevant page.
-   d. If a pricing URL is found, use **scrape-url** on it to extract pricing details.
-   e. Use **search-for-page** to find a features or product page (keyword: "features"). If 0 results, use **explore-navigation** as a fallback.
-   f. If found, use **scrape-url** on it to extract feature details.
-   g. Use **search-for-page** with keyword "about" to find an about/company page, then scrape it.
-   h. Use **search-for-page** with keyword "integrations" or "partners" for ecosystem info.
-   i. If any of the URLs given to you are already specific subpages (e.g. /pricing, /about, /features), scrape them directly without searching.
+1. For each competitor URL you are given${selfLabel(config) ? `, and first for our own product (${selfLabel(config)})` : ""}:
+${topicSteps(config)}
 
 2. After researching ALL competitors, synthesize your findings thoroughly.
 
 3. Use **write-report** exactly once at the very end to write the final report.
 
-## Report Template
-
-Use this exact structure when writing the report. Be as detailed as possible — include specific numbers, plan names, feature lists, and direct quotes where relevant.
-
-\`\`\`markdown
-# Competitive Intelligence Report
-
-*Generated by MaSteel*
-
----
-
-## [Company Name](url)
-
-### Company Overview
-[3-5 sentences: what the company does, when founded, headquarters, notable clients or scale metrics (e.g. "processes $X billion annually", "used by X companies")]
-
-### Positioning & Messaging
-[How they position themselves — what language do they use? Who do they target? What is their main value proposition? Include direct quotes from their homepage or about page if available.]
-
-### Pricing
-[Include ALL tiers, prices, transaction fees, and limits. Use a table. Note any free tiers, trials, or enterprise/custom pricing. If pricing is not publicly available, state that clearly.]
-
-| Plan / Tier | Price | Key Inclusions | Limits / Notes |
-|---|---|---|---|
-| ... | ... | ... | ... |
-
-### Key Features
-[List features in detail — not just names but brief descriptions of what each does. Group by category if there are many.]
-
-**Payments:**
-- Feature 1 — description
-- Feature 2 — description
-
-**Developer Tools:**
-- Feature 1 — description
-
-**Security & Compliance:**
-- Feature 1 — description
+${reportGuide(config)}
 
-### Integrations & Ecosystem
-[What platforms, languages, or third-party tools do they integrate with?]
-
-### Tech Stack / Infrastructure Signals
-[Any mentions of uptime, certifications (PCI, SOC2), supported currencies, global coverage, API style]
-
-### Strengths
-- Strength 1
-- Strength 2
+${toolGuidelines(true)}
+`;
+}
 
-### Weaknesses / Gaps
-- Weakness 1
-- Weakness 2
+/**
+ * Prompt for one parallel research agent: the same workflow, for a single
+ * competitor, without write-report. Its tool results become that competitor's dossier.
+ */
+export function buildResearchPrompt(config: Config): string {
+  const industry = config.report.industry ? ` in the ${config.report.industry} industry` : "";
 
----
+  return `You are a competitive intelligence research agent. You research ONE competitor website${industry}. Every page you read is collected into a dossier for that competitor; another agent writes the report from the dossiers, so you do not write it.
 
-[Repeat the above block for each competitor]
+## Workflow (follow this order)
 
----
+${topicSteps(config)}
 
-## Detailed Comparison
+When you are done, reply with 2-4 sentences: what you found, and which topics you could not find a page for.
 
-| Category | Company A | Company B | Company C |
-|---|---|---|---|
-| Founded / HQ | ... | ... | ... |
-| Pricing Model | ... | ... | ... |
-| Transaction Fees | ... | ... | ... |
-| Free Tier | ... | ... | ... |
-| Key Differentiator | ... | ... | ... |
-| Target Audience | ... | ... | ... |
-| Global Coverage | ... | ... | ... |
-| Notable Clients | ... | ... | ... |
+${toolGuidelines(false)}
+`;
+}
 
----
+/**
+ * Prompt for the agent that writes the final report from research gathered
+ * elsewhere — a finished browsing conversation or per-competitor dossiers.
+ */
+export function buildSynthesisPrompt(config: Config): string {
+  const industry = config.report.industry ? ` in the ${config.report.industry} industry` : "";
 
-## Summary & Recommendations
+  return `You are a competitive intelligence analyst${industry}. You are given research already gathered on a set of competitors. Write the final report with **write-report**, exactly once, using only what that research shows — never add facts or figures it doesn't contain.
 
-[5-8 sentences: who stands out and why, key gaps and opportunities, which competitor is strongest in which area, and any actionable takeaways]
-\`\`\`
+${reportGuide(config)}
+`;
+}
 
-## Tool Usage Guidelines
+const tools = { scrapeUrl, searchForPage, discoverSitemap, exploreNavigation, explorePricing, crawlSite, inspectSite, captureScreenshot, writeReport };
 
-- **Do NOT guess URLs.** Always use search-for-page first to discover sub-page URLs before scraping them.
-- **Do NOT call write-report until all competitors have been fully researched.**
-- If scrape-url returns an HTTP error (4xx/5xx), note it and move on — do not retry the same URL.
-- **NEVER call the same tool with the same arguments twice.** Results are cached and will not change. If search-for-page returned 0 results for a keyword, do NOT retry it — try ONE different keyword variant, then move on.
-- If search-for-page returns zero matches for a keyword, try exactly ONE alternative keyword (e.g. "product" instead of "features", "company" instead of "about", "partners" instead of "integrations"). If the alternative also returns 0, use **explore-navigation** as a fallback.
-- Only use explore-navigation once per competitor site — it already collects all discoverable nav links in one pass.
-- **After you have used explore-navigation for a site, do NOT call search-for-page on that site again.** Use the links from explore-navigation results directly.
-- Once you have gathered data from homepage + pricing + any discovered sub-pages for ALL competitors, proceed immediately to write-report. Do not keep searching.
-- Keep your reasoning concise in tool calls — let the tools do the heavy lifting.
-`;
+/** Every tool except write-report — what the browsing loop gets when synthesis runs on its own model. */
+export const BROWSING_TOOLS = Object.keys(tools).filter((name) => name !== "writeReport");
 
 export const agent = new Agent({
   id: "masteel-competitive-intel",
   name: "MaSteel Competitive Intelligence Agent",
-  model: openai.chat("gpt-4o-mini"),
-  instructions: SYSTEM_PROMPT,
-  tools: { scrapeUrl, searchForPage, exploreNavigation, writeReport },
+  // Resolved per call, so --llm-provider / --model flags parsed after import still apply
+  model: () => getModel("browsing"),
+  // Built per call from the loaded config
+  instructions: () => buildSystemPrompt(getConfig()),
+  tools,
 });
+
+/**
+ * Researches a single competitor for the parallel (supervisor) mode — one run
+ * per competitor, all the browsing tools but write-report.
+ */
+export const researchAgent = new Agent({
+  id: "masteel-researcher",
+  name: "MaSteel Competitor Researcher",
+  model: () => getModel("browsing"),
+  instructions: () => buildResearchPrompt(getConfig()),
+  tools: { scrapeUrl, searchForPage, discoverSitemap, exploreNavigation, explorePricing, crawlSite, inspectSite, captureScreenshot },
+});
+
+/**
+ * Writes the report on the synthesis model — from a finished browsing
+ * conversation, or from the research agents' dossiers.
+ */
+export const synthesisAgent = new Agent({
+  id: "masteel-synthesis",
+  name: "MaSteel Report Writer",
+  model: () => getModel("synthesis"),
+  instructions: () => buildSynthesisPrompt(getConfig()),
+  tools: { writeReport },
+});
+
+/**
+ * Instructions for the --pipeline mode's LLM steps. The pipeline does all the
+ * browsing in code; the model only turns the gathered pages into profiles and
+ * writes the summary.
+ */
+export function buildExtractionPrompt(config: Config): string {
+  const industry = config.report.industry ? ` in the ${config.report.industry} industry` : "";
+  return `You are a competitive intelligence analyst${industry}. You are given the pages already gathered from a competitor's website, each headed by its sourceId. Extract a structured profile from them — use only what the pages say.
+
+${profileGuide(config)}`;
+}
+
+export const extractionAgent = new Agent({
+  id: "masteel-extraction",
+  name: "MaSteel Profile Extractor",
+  model: () => getModel("synthesis"),
+  instructions: () => buildExtractionPrompt(getConfig()),
+});
+
+/**
+ * Asks the extraction agent for an object matching `schema` and validates the
+ * answer with it, so callers get a checked `T` rather than the agent's loosely
+ * typed `object`.
+ */
+export async function generateObject<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, prompt: string): Promise<T> {
+  // Handed over as JSON Schema: matching a zod schema against Mastra's schema types exhausts tsc's memory
+  const result = await extractionAgent.generate(prompt, { structuredOutput: { schema: zodToJsonSchema(schema) } });
+  return schema.parse(result.object);
+}
@@ -0,0 +1,326 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { BrowserContext, Page, Request } from "playwright";
+import { appendRunFile, getRunDir, getRunId, isRunId, writeRunFile } from "./runs";
+
+/**
+ * Network archives, so a run can be reproduced after the sites have changed.
+ *
+ *   record — every response the browser receives through getPage(), and every
+ *            robots.txt / sitemap fetched from Node, is saved under
+ *            runs/<runId>/archive/ (--record)
+ *   replay — pages are served only from an earlier run's archive through
+ *            Playwright request routing; anything not in it fails as offline
+ *            (--replay <runId>)
+ *
+ * The archive is written as it goes — requests.jsonl plus one file per distinct
+ * body under bodies/ — so an interrupted run keeps what it recorded.
+ * archive.har is built from those at the end of the run (and again before a
+ * replay), in the HAR 1.2 format Playwright's routeFromHAR() reads.
+ *
+ * Credentials stay out of it: the pages of auth profile logins and checks are
+ * not recorded, and cookie and authorization headers are redacted everywhere.
+ */
+
+export type ArchiveMode = "record" | "replay";
+
+interface Header {
+  name: string;
+  value: string;
+}
+
+interface ArchivedResponse {
+  startedAt: string;
+  /** "browser" for page traffic, "node" for robots.txt and sitemap fetches */
+  via: "browser" | "node";
+  method: string;
+  url: string;
+  requestHeaders: Header[];
+  /** Body file of a POST/PUT request, relative to archive/ */
+  postData: { mimeType: string; file: string } | null;
+  status: number;
+  statusText: string;
+  headers: Header[];
+  mimeType: string;
+  /** Body file relative to archive/; bodies are stored decoded */
+  file: string;
+  size: number;
+}
+
+const ARCHIVE_DIR = "archive";
+const LOG_FILE = "requests.jsonl";
+const HAR_FILE = "archive.har";
+
+// Larger bodies (video, big downloads) are left out — nothing the tools read.
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Bodies are decoded, so these would make the browser decode them a second time.
+const DROPPED_HEADERS = new Set(["content-encoding", "content-length", "transfer-encoding"]);
+
+// Session cookies and tokens from auth profiles; replay doesn't need them.
+const REDACTED_HEADERS = new Set(["cookie", "set-cookie", "authorization", "proxy-authorization"]);
+
+let mode: ArchiveMode | null = null;
+let replayRunId: string | null = null;
+let replayEntries: ArchivedResponse[] | null = null;
+const pending = new Set<Promise<void>>();
+const storedBodies = new Set<string>();
+const unrecordedPages = new WeakSet<Page>();
+
+/**
+ * Turns on recording into the current run, or replay from `replayRunId`. Replay
+ * fails straight away when that run has no archive.
+ */
+export function configureArchive(options: { mode: ArchiveMode; replayRunId?: string }) {
+  if (options.mode === "replay") {
+    if (!options.replayRunId) {
+      throw new Error("--replay needs the ID of a run recorded with --record");
+    }
+    if (!isRunId(options.replayRunId)) {
+      throw new Error(`Invalid run ID "${options.replayRunId}" — use letters, digits, ".", "-" and "_" only`);
+    }
+    if (!fs.existsSync(path.join(getRunDir(options.replayRunId), ARCHIVE_DIR, LOG_FILE))) {
+      throw new Error(`Run "${options.replayRunId}" has no network archive — record one with --record first`);
+    }
+    replayRunId = options.replayRunId;
+  }
+  mode = options.mode;
+}
+
+export function getArchiveMode(): ArchiveMode | null {
+  return mode;
+}
+
+export function getReplayRunId(): string | null {
+  return replayRunId;
+}
+
+function readLog(runId: string): ArchivedResponse[] {
+  const file = path.join(getRunDir(runId), ARCHIVE_DIR, LOG_FILE);
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as ArchivedResponse);
+}
+
+/**
+ * Stores a body once per distinct content and returns its path relative to archive/.
+ */
+function storeBody(body: Buffer, mimeType: string): string {
+  const hash = crypto.createHash("sha1").update(body).digest("hex");
+  // "text/html; charset=utf-8" → html, "image/svg+xml" → svg; anything odd → bin
+  const subtype = mimeType.split(";")[0].split("/")[1]?.split("+")[0].trim().toLowerCase() ?? "";
+  const ext = /^[a-z0-9]{1,6}$/.test(subtype) ? subtype : "bin";
+  const file = `bodies/${hash}.${ext}`;
+  if (!storedBodies.has(file)) {
+    storedBodies.add(file);
+    writeRunFile(path.join(ARCHIVE_DIR, file), body);
+  }
+  return file;
+}
+
+function toHeaders(headers: Header[] | Headers): Header[] {
+  const list = Array.isArray(headers) ? headers : Array.from(headers.entries(), ([name, value]) => ({ name, value }));
+  return list
+    .filter((h) => !DROPPED_HEADERS.has(h.name.toLowerCase()))
+    .map((h) => (REDACTED_HEADERS.has(h.name.toLowerCase()) ? { name: h.name, value: "[redacted]" } : h));
+}
+
+function mimeTypeOf(headers: Header[]): string {
+  return headers.find((h) => h.name.toLowerCase() === "content-type")?.value ?? "application/octet-stream";
+}
+
+function append(entry: ArchivedResponse) {
+  appendRunFile(path.join(ARCHIVE_DIR, LOG_FILE), JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Tracks a write so flushArchive() can wait for it before the HAR is built.
+ */
+function track(work: Promise<void>) {
+  pending.add(work);
+  work.finally(() => pending.delete(work));
+}
+
+/**
+ * Leaves the page's traffic out of the archive — used for auth profile logins,
+ * whose requests carry the credentials being typed in.
+ */
+export function skipRecording(page: Page) {
+  unrecordedPages.add(page);
+}
+
+function isUnrecorded(request: Request): boolean {
+  try {
+    return unrecordedPages.has(request.frame().page());
+  } catch {
+    // Service worker requests have no frame
+    return false;
+  }
+}
+
+async function recordRequest(request: Request) {
+  if (isUnrecorded(request)) return;
+  const response = await request.response();
+  if (!response) return;
+  let body: Buffer;
+  try {
+    body = await response.body();
+  } catch {
+    // Redirects have no body to read; anything else without one can't be replayed
+    if (response.status() < 300 || response.status() >= 400) return;
+    body = Buffer.alloc(0);
+  }
+  if (body.length > MAX_BODY_BYTES) return;
+
+  const headers = toHeaders(await response.headersArray());
+  const mimeType = mimeTypeOf(headers);
+  const requestHeaders = toHeaders(await request.headersArray());
+  const postData = request.postDataBuffer();
+  append({
+    startedAt: new Date().toISOString(),
+    via: "browser",
+    method: request.method(),
+    url: request.url(),
+    requestHeaders,
+    postData: postData ? { mimeType: mimeTypeOf(requestHeaders), file: storeBody(postData, "application/octet-stream") } : null,
+    status: response.status(),
+    statusText: response.statusText(),
+    headers,
+    mimeType,
+    file: storeBody(body, mimeType),
+    size: body.length,
+  });
+}
+
+/**
+ * Hooks a new browser context up to the archive: in record mode every finished
+ * request is saved, in replay mode every request is answered from the archive
+ * and nothing reaches the network.
+ */
+export async function attachArchive(context: BrowserContext): Promise<void> {
+  if (mode === "record") {
+    context.on("requestfinished", (request) => {
+      track(
+        recordRequest(request).catch((err) => {
+          console.log(`  [archive] Could not record ${request.url()}: ${err instanceof Error ? err.message.split("\n")[0] : String(err)}`);
+        }),
+      );
+    });
+    console.log(`[MaSteel] Recording network traffic into ${path.join(getRunDir(), ARCHIVE_DIR)}`);
+  } else if (mode === "replay") {
+    const har = buildHar(replayRunId!);
+    await context.routeFromHAR(har, { notFound: "abort" });
+    console.log(`[MaSteel] Replaying pages from run ${replayRunId} — no network`);
+  }
+}
+
+/**
+ * fetch() for Node-side requests (robots.txt, sitemaps). Records the response
+ * in record mode; in replay mode answers from the archive and throws, like an
+ * offline fetch, when the URL was never recorded.
+ */
+export async function archivedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  if (mode === "replay") {
+    replayEntries ??= readLog(replayRunId!);
+    // The first recording wins, as it does for routeFromHAR() in the browser
+    const entry = replayEntries.find((e) => e.url === url && e.method === "GET");
+    if (!entry) {
+      throw new Error(`${url} is not in the archive of run ${replayRunId}`);
+    }
+    const body = fs.readFileSync(path.join(getRunDir(replayRunId!), ARCHIVE_DIR, entry.file));
+    return new Response(entry.status === 204 || entry.status === 304 ? null : body, {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers.map((h) => [h.name, h.value] as [string, string]),
+    });
+  }
+
+  const res = await fetch(url, init);
+  if (mode !== "record") return res;
+
+  const body = Buffer.from(await res.clone().arrayBuffer());
+  const headers = toHeaders(res.headers);
+  const mimeType = mimeTypeOf(headers);
+  append({
+    startedAt: new Date().toISOString(),
+    via: "node",
+    method: "GET",
+    url,
+    requestHeaders: toHeaders(new Headers(init.headers)),
+    postData: null,
+    status: res.status,
+    statusText: res.statusText,
+    headers,
+    mimeType,
+    file: storeBody(body, mimeType),
+    size: body.length,
+  });
+  return res;
+}
+
+/**
+ * Writes archive.har for a run from its request log and returns its path.
+ * Body files are referenced rather than inlined (HAR `content._file`), so the
+ * HAR stays small enough to open in a HAR viewer.
+ */
+function buildHar(runId: string): string {
+  const entries = readLog(runId).map((e) => {
+    const u = new URL(e.url);
+    return {
+      startedDateTime: e.startedAt,
+      time: 0,
+      request: {
+        method: e.method,
+        url: e.url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: e.requestHeaders,
+        queryString: Array.from(u.searchParams, ([name, value]) => ({ name, value })),
+        ...(e.postData ? { postData: { mimeType: e.postData.mimeType, _file: e.postData.file } } : {}),
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: e.status,
+        statusText: e.statusText,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: e.headers,
+        content: { size: e.size, mimeType: e.mimeType, _file: e.file },
+        redirectURL: e.headers.find((h) => h.name.toLowerCase() === "location")?.value ?? "",
+        headersSize: -1,
+        bodySize: e.size,
+      },
+      cache: {},
+      timings: { send: -1, wait: -1, receive: -1 },
+      _via: e.via,
+    };
+  });
+  const har = { log: { version: "1.2", creator: { name: "MaSteel", version: "1.0" }, pages: [], entries } };
+  const file = path.join(getRunDir(runId), ARCHIVE_DIR, HAR_FILE);
+  fs.writeFileSync(file, JSON.stringify(har, null, 2) + "\n", "utf-8");
+  return file;
+}
+
+/**
+ * Waits for the responses still being saved. withPage() calls this before it
+ * closes a page, since a closed page's response bodies can't be read anymore.
+ */
+export async function settleRecordings(): Promise<void> {
+  await Promise.allSettled([...pending]);
+}
+
+/**
+ * Waits for in-flight recordings and writes the run's archive.har. A no-op
+ * unless recording, or if nothing was recorded.
+ */
+export async function flushArchive(): Promise<void> {
+  if (mode !== "record") return;
+  await settleRecordings();
+  if (!fs.existsSync(path.join(getRunDir(), ARCHIVE_DIR, LOG_FILE))) return;
+  const file = buildHar(getRunId());
+  console.log(`[MaSteel] Network archive written to ${file} — replay it with --replay ${getRunId()}`);
+}
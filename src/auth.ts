@@ -0,0 +1,321 @@
+import fs from "fs";
+import path from "path";
+import type { BrowserContext, Cookie, Page } from "playwright";
+import { getConfig, type AuthProfile, type Secret } from "./config";
+import { withPage, isSessionError } from "./session";
+import { skipRecording } from "./archive";
+
+/**
+ * Per-domain logins from the config's `auth` profiles, for competitor pages
+ * behind an account or an email gate:
+ *   - storageState files and cookie jars are loaded into every browser context
+ *     as it is created, so their cookies go out with any request to the domain
+ *   - scripted logins run once per run, before the first visit to the domain
+ *     (politely() asks for it), and the cookies they earn are kept for
+ *     contexts created after a session rotation
+ *   - `verify` checks the session actually works before it is relied on
+ *
+ * Credentials come from environment variables or secret files only. A failed
+ * login makes every visit to its domain fail with an "Auth failed for …" error,
+ * so tools report it instead of reading the logged-out page.
+ */
+
+interface SavedState {
+  cookies: Cookie[];
+  origins: { origin: string; localStorage: { name: string; value: string }[] }[];
+}
+
+const STEP_TIMEOUT_MS = 15000;
+const NAVIGATION_TIMEOUT_MS = 30000;
+
+// Profile domain → cookies and localStorage earned by its scripted login
+const loggedIn = new Map<string, SavedState>();
+// Profile domain → its storageState and cookie jar, or why they couldn't be read
+const savedStates = new Map<string, SavedState | Error>();
+const authenticating = new Map<string, Promise<void>>();
+
+function profileFor(url: string): AuthProfile | null {
+  const host = new URL(url).hostname.toLowerCase();
+  return (
+    getConfig().auth.find((p) => {
+      const domain = p.domain.toLowerCase().replace(/^\./, "");
+      return host === domain || host.endsWith(`.${domain}`);
+    }) ?? null
+  );
+}
+
+function matchesDomain(cookieDomain: string, profile: AuthProfile): boolean {
+  const domain = profile.domain.toLowerCase().replace(/^\./, "");
+  const d = cookieDomain.toLowerCase().replace(/^\./, "");
+  return d === domain || d.endsWith(`.${domain}`) || domain.endsWith(`.${d}`);
+}
+
+function message(err: unknown): string {
+  return err instanceof Error ? err.message.split("\n")[0] : String(err);
+}
+
+function readSecret(secret: Secret): string {
+  if ("env" in secret) {
+    const value = process.env[secret.env];
+    if (!value) throw new Error(`environment variable ${secret.env} is not set`);
+    return value;
+  }
+  const file = path.resolve(process.cwd(), secret.file);
+  if (!fs.existsSync(file)) throw new Error(`secret file ${file} not found`);
+  return fs.readFileSync(file, "utf-8").replace(/\r?\n$/, "");
+}
+
+const SAME_SITE: Record<string, Cookie["sameSite"]> = {
+  strict: "Strict",
+  lax: "Lax",
+  none: "None",
+  no_restriction: "None",
+};
+
+/**
+ * Normalizes a cookie from a storageState file or a browser extension's JSON
+ * export (which uses `expirationDate` and lowercase sameSite values).
+ */
+function toCookie(raw: Record<string, unknown>, profile: AuthProfile): Cookie {
+  return {
+    name: String(raw.name),
+    value: String(raw.value ?? ""),
+    domain: typeof raw.domain === "string" ? raw.domain : `.${profile.domain}`,
+    path: typeof raw.path === "string" ? raw.path : "/",
+    expires: Number(raw.expires ?? raw.expirationDate ?? -1),
+    httpOnly: Boolean(raw.httpOnly),
+    secure: Boolean(raw.secure),
+    sameSite: SAME_SITE[String(raw.sameSite).toLowerCase()] ?? "Lax",
+  };
+}
+
+/**
+ * Reads a cookie jar: a JSON array (or `{ cookies: [...] }`) of cookies, or a
+ * Netscape cookies.txt as written by curl and most export extensions.
+ */
+function readCookieJar(file: string, profile: AuthProfile): Cookie[] {
+  const text = fs.readFileSync(file, "utf-8");
+  if (/^\s*[[{]/.test(text)) {
+    const raw = JSON.parse(text);
+    const list: Record<string, unknown>[] = Array.isArray(raw) ? raw : (raw.cookies ?? []);
+    return list.map((c) => toCookie(c, profile));
+  }
+  return text.split("\n").flatMap((line): Cookie[] => {
+    // curl marks HttpOnly cookies with this prefix instead of a column
+    const httpOnly = line.startsWith("#HttpOnly_");
+    if ((!httpOnly && line.startsWith("#")) || !line.trim()) return [];
+    const fields = line.replace(/^#HttpOnly_/, "").replace(/\r$/, "").split("\t");
+    if (fields.length < 7) return [];
+    const [domain, , cookiePath, secure, expires, name, ...value] = fields;
+    return [
+      {
+        name,
+        value: value.join("\t"),
+        domain,
+        path: cookiePath,
+        expires: Number(expires) || -1,
+        httpOnly,
+        secure: secure.toUpperCase() === "TRUE",
+        sameSite: "Lax",
+      },
+    ];
+  });
+}
+
+function readSavedState(profile: AuthProfile): SavedState {
+  const state: SavedState = { cookies: [], origins: [] };
+  if (profile.storageState) {
+    const file = path.resolve(process.cwd(), profile.storageState);
+    if (!fs.existsSync(file)) throw new Error(`storageState file ${file} not found`);
+    const raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+    state.cookies.push(...(raw.cookies ?? []).map((c: Record<string, unknown>) => toCookie(c, profile)));
+    state.origins.push(...(raw.origins ?? []));
+  }
+  if (profile.cookies) {
+    const file = path.resolve(process.cwd(), profile.cookies);
+    if (!fs.existsSync(file)) throw new Error(`cookie jar ${file} not found`);
+    state.cookies.push(...readCookieJar(file, profile));
+  }
+  return state;
+}
+
+/**
+ * The profile's saved session — its storageState file plus its cookie jar —
+ * read once per run. Null when it has neither.
+ */
+function savedStateOf(profile: AuthProfile): SavedState | Error | null {
+  if (!profile.storageState && !profile.cookies) return null;
+  let state = savedStates.get(profile.domain);
+  if (!state) {
+    try {
+      state = readSavedState(profile);
+    } catch (err) {
+      state = new Error(message(err));
+      console.log(`  [auth] Could not load the saved session for ${profile.domain}: ${state.message}`);
+    }
+    savedStates.set(profile.domain, state);
+  }
+  return state;
+}
+
+async function applyState(context: BrowserContext, state: SavedState) {
+  if (state.cookies.length > 0) {
+    await context.addCookies(state.cookies);
+  }
+  if (state.origins.length > 0) {
+    // localStorage can only be set from inside the origin, so it is seeded on every load
+    await context.addInitScript((origins) => {
+      const win = globalThis as any;
+      const saved = origins.find((o) => o.origin === win.location.origin);
+      if (!saved) return;
+      for (const item of saved.localStorage) {
+        win.localStorage.setItem(item.name, item.value);
+      }
+    }, state.origins);
+  }
+}
+
+/**
+ * Loads every profile's saved session, and the sessions earned by logins so
+ * far, into a new browser context. A profile whose files can't be read is
+ * skipped here; visits to its domain fail with the reason in ensureAuth().
+ */
+export async function attachAuth(context: BrowserContext): Promise<void> {
+  for (const profile of getConfig().auth) {
+    const saved = savedStateOf(profile);
+    if (saved && !(saved instanceof Error)) {
+      await applyState(context, saved);
+    }
+    const earned = loggedIn.get(profile.domain);
+    if (earned) {
+      await applyState(context, earned);
+    }
+  }
+}
+
+/**
+ * Opens the profile's verify page and returns why it doesn't look logged in,
+ * or null when the logged-in selector shows up.
+ */
+async function verify(profile: AuthProfile): Promise<string | null> {
+  const check = profile.verify!;
+  const url = check.url ?? `https://${profile.domain.replace(/^\./, "")}/`;
+  return withPage(async (page) => {
+    skipRecording(page);
+    await page.goto(url, { waitUntil: "domcontentloaded", timeout: NAVIGATION_TIMEOUT_MS });
+    try {
+      await page.waitForSelector(check.selector, { timeout: STEP_TIMEOUT_MS });
+      return null;
+    } catch {
+      return `${url} does not show "${check.selector}" (landed on ${page.url()})`;
+    }
+  });
+}
+
+async function runStep(page: Page, step: NonNullable<AuthProfile["login"]>["steps"][number]) {
+  if ("fill" in step) {
+    await page.fill(step.fill, readSecret(step.value), { timeout: STEP_TIMEOUT_MS });
+  } else if ("click" in step) {
+    await page.click(step.click, { timeout: STEP_TIMEOUT_MS });
+  } else if ("submit" in step) {
+    await Promise.all([
+      page.waitForNavigation({ waitUntil: "domcontentloaded", timeout: NAVIGATION_TIMEOUT_MS }).catch(() => {}),
+      page.click(step.submit, { timeout: STEP_TIMEOUT_MS }),
+    ]);
+  } else {
+    await page.waitForSelector(step.waitFor, { timeout: NAVIGATION_TIMEOUT_MS });
+  }
+}
+
+function describeStep(step: NonNullable<AuthProfile["login"]>["steps"][number]): string {
+  const [action, selector] = Object.entries(step)[0];
+  return `${action} "${selector}"`;
+}
+
+/**
+ * Runs the profile's login steps on a fresh page and keeps the cookies and
+ * localStorage it leaves behind for the domain.
+ */
+async function login(profile: AuthProfile) {
+  const { url, steps } = profile.login!;
+  console.log(`  [auth] Logging in to ${profile.domain} at ${url}`);
+  await withPage(async (page) => {
+    // The login's requests carry the credentials, so a --record run leaves them out
+    skipRecording(page);
+    await page.goto(url, { waitUntil: "domcontentloaded", timeout: NAVIGATION_TIMEOUT_MS });
+    for (const [i, step] of steps.entries()) {
+      try {
+        await runStep(page, step);
+      } catch (err) {
+        throw new Error(`login step ${i + 1} (${describeStep(step)}) failed: ${message(err)}`);
+      }
+    }
+    const state = await page.context().storageState();
+    loggedIn.set(profile.domain, {
+      cookies: state.cookies.filter((c) => matchesDomain(c.domain, profile)),
+      origins: state.origins.filter((o) => matchesDomain(new URL(o.origin).hostname, profile)),
+    });
+  });
+}
+
+async function authenticate(profile: AuthProfile) {
+  const saved = savedStateOf(profile);
+  const loadError = saved instanceof Error ? saved : null;
+
+  if (saved && !loadError && profile.verify) {
+    const problem = await verify(profile);
+    if (!problem) {
+      console.log(`  [auth] Saved session for ${profile.domain} is logged in`);
+      return;
+    }
+    if (!profile.login) {
+      throw new Error(`saved session is logged out — ${problem}; refresh ${profile.storageState ?? profile.cookies}`);
+    }
+    console.log(`  [auth] Saved session for ${profile.domain} is logged out — trying the login steps`);
+  } else if (!profile.login) {
+    if (loadError) throw loadError;
+    return;
+  }
+
+  await login(profile);
+  if (profile.verify) {
+    const problem = await verify(profile);
+    if (problem) throw new Error(`login did not work — ${problem}`);
+  }
+  console.log(`  [auth] Logged in to ${profile.domain}`);
+}
+
+/**
+ * The part of a page cache key that says which auth profile the page was
+ * fetched with — empty for anonymous pages, so logged-in copies are cached
+ * apart and never reach a run without the profile.
+ */
+export function authScope(url: string): { auth?: string } {
+  const profile = profileFor(url);
+  return profile ? { auth: profile.domain.toLowerCase().replace(/^\./, "") } : {};
+}
+
+/**
+ * Makes sure the browser is logged in to `url`'s domain when the config has an
+ * auth profile for it. The first call per domain does the work; parallel and
+ * later calls share its outcome, so a failed login is reported to every tool
+ * that visits the domain rather than retried each time. A lost browser session
+ * says nothing about the login, so it is tried again on the next visit. Throws
+ * "Auth failed for <domain>: <reason>".
+ */
+export async function ensureAuth(url: string): Promise<void> {
+  const profile = profileFor(url);
+  if (!profile) return;
+
+  let pending = authenticating.get(profile.domain);
+  if (!pending) {
+    pending = authenticate(profile).catch((err) => {
+      if (isSessionError(err)) authenticating.delete(profile.domain);
+      const reason = `Auth failed for ${profile.domain}: ${message(err)}`;
+      console.log(`  [auth] ${reason}`);
+      throw new Error(reason);
+    });
+    authenticating.set(profile.domain, pending);
+  }
+  await pending;
+}
@@ -0,0 +1,23 @@
+import { chromium } from "playwright";
+import type { BrowserProvider } from "./types";
+
+/**
+ * Headless Chromium launched on this machine — no API key, no network hop.
+ * Handy for internal staging sites where a cloud browser is overkill.
+ * Set LOCAL_HEADLESS=false to watch the browser instead of a live viewer.
+ */
+export const localProvider: BrowserProvider = {
+  name: "local",
+  label: "Local",
+
+  async createSession() {
+    return { id: `local-${Date.now()}` };
+  },
+
+  connect() {
+    return chromium.launch({ headless: process.env.LOCAL_HEADLESS !== "false" });
+  },
+
+  // Nothing remote to release — closing the Browser ends the process.
+  async releaseSession() {},
+};
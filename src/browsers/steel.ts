@@ -0,0 +1,43 @@
+import Steel from "steel-sdk";
+import { chromium } from "playwright";
+import type { BrowserProvider } from "./types";
+
+const SESSION_TIMEOUT_MS = 900000; // 15 min — hobby plan max; set useProxy/solveCaptcha on paid plans
+
+let client: Steel | null = null;
+
+/**
+ * Created lazily so the local provider never needs a Steel API key.
+ */
+function getClient(): Steel {
+  if (!client) {
+    client = new Steel({ steelAPIKey: process.env.STEEL_API_KEY });
+  }
+  return client;
+}
+
+/**
+ * Steel cloud browser — bot detection, CAPTCHAs and a live viewer.
+ */
+export const steelProvider: BrowserProvider = {
+  name: "steel",
+  label: "Steel",
+
+  async createSession() {
+    const s = await getClient().sessions.create({
+      timeout: SESSION_TIMEOUT_MS,
+    });
+    return { id: s.id, liveViewUrl: s.debugUrl, expiresAt: Date.now() + SESSION_TIMEOUT_MS };
+  },
+
+  // Reuses the session's default context so Steel's fingerprint stays intact
+  // and activity shows in the live viewer.
+  connect(session) {
+    const cdpUrl = `wss://connect.steel.dev?apiKey=${process.env.STEEL_API_KEY}&sessionId=${session.id}`;
+    return chromium.connectOverCDP(cdpUrl);
+  },
+
+  async releaseSession(session) {
+    await getClient().sessions.release(session.id);
+  },
+};
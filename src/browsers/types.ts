@@ -0,0 +1,26 @@
+import type { Browser } from "playwright";
+
+/**
+ * Minimal description of a running browser session, independent of the backend.
+ */
+export interface SessionInfo {
+  id: string;
+  /** URL of a live viewer for the session, if the backend offers one. */
+  liveViewUrl?: string;
+  /** Epoch ms after which the backend will end the session on its own, if it has a limit. */
+  expiresAt?: number;
+}
+
+/**
+ * A browser backend. Providers are stateless — session.ts owns caching and
+ * lifecycle, providers only know how to create, connect to and release a session.
+ */
+export interface BrowserProvider {
+  /** Value used to select the provider (BROWSER_PROVIDER / --browser). */
+  name: string;
+  /** Prefix used in log lines, e.g. "Steel" → "[Steel] Session created". */
+  label: string;
+  createSession(): Promise<SessionInfo>;
+  connect(session: SessionInfo): Promise<Browser>;
+  releaseSession(session: SessionInfo): Promise<void>;
+}
@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+/**
+ * Disk-backed page cache shared by the browsing tools, so re-running a report
+ * on the same competitors doesn't re-navigate every page. Entries are JSON files
+ * under CACHE_DIR/<tool>/<hash>.json, keyed by tool name + parameters.
+ *
+ * Modes:
+ *   normal  — use fresh entries (younger than the TTL), fetch and store otherwise
+ *   refresh — always fetch, overwrite entries (--refresh)
+ *   only    — never navigate; use any entry regardless of age (--cache-only)
+ *   off     — always fetch, store nothing (--replay, whose pages come from an
+ *             archive and shouldn't end up in the shared cache)
+ */
+
+export type CacheMode = "normal" | "refresh" | "only" | "off";
+
+interface CacheEntry<T> {
+  tool: string;
+  params: Record<string, unknown>;
+  storedAt: number;
+  value: T;
+}
+
+const DEFAULT_TTL_HOURS = 24;
+
+/**
+ * CACHE_TTL_HOURS, or the default when it is unset. Anything but a number
+ * of hours ≥ 0 would make entries never expire (NaN) or read as fresh
+ * forever, so it is reported and the default used instead.
+ */
+function ttlFromEnv(): number {
+  const raw = process.env.CACHE_TTL_HOURS;
+  if (!raw) return DEFAULT_TTL_HOURS;
+  const hours = Number(raw);
+  if (!Number.isFinite(hours) || hours < 0) {
+    console.warn(`[MaSteel] Invalid CACHE_TTL_HOURS "${raw}" — expected a number of hours; using ${DEFAULT_TTL_HOURS}`);
+    return DEFAULT_TTL_HOURS;
+  }
+  return hours;
+}
+
+let cacheDir = path.resolve(process.cwd(), process.env.CACHE_DIR || ".masteel-cache");
+let ttlMs = ttlFromEnv() * 3600000;
+let mode: CacheMode = "normal";
+
+export function configureCache(options: { mode?: CacheMode; ttlHours?: number; dir?: string }) {
+  if (options.mode) mode = options.mode;
+  if (options.ttlHours !== undefined) {
+    if (!Number.isFinite(options.ttlHours) || options.ttlHours < 0) {
+      throw new Error(`Invalid cache TTL ${options.ttlHours} — expected a number of hours`);
+    }
+    ttlMs = options.ttlHours * 3600000;
+  }
+  if (options.dir) cacheDir = path.resolve(process.cwd(), options.dir);
+}
+
+export function isCacheOnly(): boolean {
+  return mode === "only";
+}
+
+function entryPath(tool: string, params: Record<string, unknown>): string {
+  // Sort keys so { a, b } and { b, a } hit the same entry
+  const canonical = JSON.stringify(params, Object.keys(params).sort());
+  const hash = crypto.createHash("sha256").update(canonical).digest("hex").slice(0, 32);
+  return path.join(cacheDir, tool, `${hash}.json`);
+}
+
+/**
+ * Returns the cached value for (tool, params), or null on a miss, an expired
+ * entry, or in refresh and off modes.
+ */
+export function readCache<T>(tool: string, params: Record<string, unknown>): T | null {
+  if (mode === "refresh" || mode === "off") return null;
+
+  const file = entryPath(tool, params);
+  try {
+    const entry = JSON.parse(fs.readFileSync(file, "utf-8")) as CacheEntry<T>;
+    if (mode !== "only" && Date.now() - entry.storedAt > ttlMs) return null;
+    return entry.value;
+  } catch {
+    // missing or unreadable entry — treat as a miss
+    return null;
+  }
+}
+
+export function writeCache(tool: string, params: Record<string, unknown>, value: unknown) {
+  if (mode === "off") return;
+  const file = entryPath(tool, params);
+  const entry: CacheEntry<unknown> = { tool, params, storedAt: Date.now(), value };
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry), "utf-8");
+  } catch (err) {
+    // A failed cache write should never fail the tool call
+    console.log(`  [cache] Write failed for ${tool}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
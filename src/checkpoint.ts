@@ -0,0 +1,136 @@
+import { appendRunFile, writeRunFile, readRunFile, resumeRun } from "./runs";
+import { restoreSource } from "./sources";
+import type { PageSnapshotInfo } from "./runs";
+import type { CompetitorConfig, Config } from "./config";
+import { isValidationError } from "./steps";
+import type { ValidationError } from "@mastra/core/tools";
+import type { MessageInput } from "@mastra/core/agent/message-list";
+
+/**
+ * Checkpoints that make a run resumable after a crash or a dead session:
+ *
+ *   runs/<runId>/checkpoint/
+ *     run.json       — how the run was started: mode, competitors, resolved config
+ *     tools.jsonl    — every browsing tool call's input and result, appended as it finishes
+ *     messages.json  — the --single-agent conversation so far, rewritten after every step
+ *
+ * `resume <runId>` reloads these into the same run: the page snapshots become
+ * sources again (same S# IDs), recorded tool calls are replayed instead of
+ * re-navigating, and the agent carries on from its saved conversation.
+ */
+
+export type RunMode = "supervisor" | "single-agent" | "pipeline";
+
+export interface RunManifest {
+  mode: RunMode;
+  competitors: CompetitorConfig[];
+  config: Config;
+  startedAt: string;
+}
+
+export interface ResumedRun {
+  manifest: RunManifest;
+  /** The saved conversation, for --single-agent runs that got as far as one step */
+  messages: MessageInput[] | null;
+  /** True when the run already wrote its report */
+  finished: boolean;
+}
+
+const replay = new Map<string, unknown>();
+
+/** JSON with sorted keys, so the same call made with a different key order still matches. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function callKey(toolId: string, input: unknown): string {
+  return `${toolId} ${stableStringify(input)}`;
+}
+
+/**
+ * Wraps a browsing tool's execute in place: every result is appended to the
+ * run's tools.jsonl, and on a resumed run a call already recorded there is
+ * answered from the checkpoint without touching the browser. Results the
+ * tool's `isFailure` recognizes (navigation errors, cache misses, pages not
+ * visited) are not recorded, so a resumed run makes those calls again.
+ */
+export function checkpointTool<
+  TIn,
+  TContext,
+  TOut,
+  T extends { id: string; execute?: (input: TIn, context: TContext) => Promise<TOut | ValidationError> },
+>(tool: T & { execute?: (input: TIn, context: TContext) => Promise<TOut | ValidationError> }, isFailure: (output: TOut) => boolean): T {
+  const execute = tool.execute;
+  if (!execute) return tool;
+  tool.execute = (async (input: TIn, context: TContext) => {
+    const key = callKey(tool.id, input);
+    if (replay.has(key)) {
+      console.log(`  [${tool.id}] Replayed from checkpoint`);
+      return replay.get(key) as TOut;
+    }
+    const output = await execute.call(tool, input, context);
+    // Mastra's input validation errors aren't results worth replaying either
+    if (!isValidationError(output) && !isFailure(output)) {
+      appendRunFile("checkpoint/tools.jsonl", JSON.stringify({ tool: tool.id, input, output, at: new Date().toISOString() }) + "\n");
+    }
+    return output;
+  }) as T["execute"];
+  return tool;
+}
+
+export function startCheckpoint(manifest: Omit<RunManifest, "startedAt">) {
+  writeRunFile("checkpoint/run.json", JSON.stringify({ ...manifest, startedAt: new Date().toISOString() }, null, 2) + "\n");
+}
+
+export function saveMessages(messages: MessageInput[]) {
+  writeRunFile("checkpoint/messages.json", JSON.stringify(messages) + "\n");
+}
+
+/**
+ * Makes `runId` the current run again and reloads its checkpoint: sources from
+ * the page snapshots, tool results for replay, and the saved conversation.
+ * Throws when the run has no checkpoint.
+ */
+export function resumeFromCheckpoint(runId: string): ResumedRun {
+  const manifestJson = readRunFile(runId, "checkpoint/run.json");
+  if (!manifestJson) {
+    throw new Error(`Run "${runId}" has no checkpoint to resume from`);
+  }
+  const manifest: RunManifest = JSON.parse(manifestJson);
+  const snapshots: PageSnapshotInfo[] = JSON.parse(readRunFile(runId, "pages.json") ?? "[]");
+  resumeRun(runId, snapshots);
+
+  // Restored in ID order so pages scraped after the resume get the next free ID
+  const byId = (s: PageSnapshotInfo) => Number(s.sourceId.slice(1));
+  for (const s of [...snapshots].sort((a, b) => byId(a) - byId(b))) {
+    const content = readRunFile(runId, s.file);
+    if (content !== null) {
+      restoreSource({ id: s.sourceId, url: s.url, title: s.title, content, scrapedAt: s.scrapedAt });
+    }
+  }
+
+  const lines = (readRunFile(runId, "checkpoint/tools.jsonl") ?? "").split("\n").filter(Boolean);
+  for (const line of lines) {
+    try {
+      const entry = JSON.parse(line);
+      replay.set(callKey(entry.tool, entry.input), entry.output);
+    } catch {
+      // A line cut off by the crash — that call just runs again
+    }
+  }
+
+  const messagesJson = readRunFile(runId, "checkpoint/messages.json");
+  console.log(`[Checkpoint] Resuming run ${runId}: ${snapshots.length} page(s), ${replay.size} tool result(s) to replay`);
+  return {
+    manifest,
+    messages: messagesJson ? JSON.parse(messagesJson) : null,
+    finished: readRunFile(runId, "report.json") !== null,
+  };
+}
@@ -0,0 +1,218 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * Project configuration from masteel.config.json / .yaml / .yml in the working
+ * directory (or --config <file>). Every field is optional — without a file the
+ * defaults below describe a generic SaaS competitor analysis.
+ *
+ * The agent's system prompt, the report's extra sections and the comparison
+ * table are all generated from this, so teams in other industries only need a
+ * config file, not a fork of agent.ts.
+ */
+
+export const CONFIG_FILES = ["masteel.config.json", "masteel.config.yaml", "masteel.config.yml"];
+
+/** Profile fields the comparison table can show directly, without asking the agent for a separate value. */
+export const BUILTIN_ROW_FIELDS = [
+  "foundedHq",
+  "pricingModel",
+  "freeTier",
+  "keyDifferentiator",
+  "targetAudience",
+  "globalCoverage",
+  "notableClients",
+] as const;
+
+export const CompetitorConfigSchema = z.object({
+  name: z.string().optional().describe("Display name; defaults to whatever the site calls itself"),
+  url: z.string().url().describe("Homepage or other seed URL"),
+  subpages: z
+    .record(z.string(), z.string().url())
+    .default({})
+    .describe("Known pages by topic name, e.g. { pricing: 'https://…/pricing' } — scraped directly, no searching"),
+});
+
+const TopicSchema = z.object({
+  name: z.string().describe("Topic name, e.g. 'pricing'"),
+  keywords: z.array(z.string()).min(1).describe("search-for-page keywords: the first is tried first, the rest are synonyms"),
+  locales: z
+    .record(z.string(), z.array(z.string()))
+    .default({})
+    .describe("Keywords by language, e.g. { de: ['preise', 'tarife'] } — added to the built-in translations of common topics"),
+  extract: z.string().describe("What to pull out of the page"),
+  tool: z.enum(["scrape-url", "explore-pricing", "crawl-site"]).default("scrape-url").describe("Tool to read the page with once found"),
+});
+
+const SectionSchema = z.object({
+  title: z.string(),
+  description: z.string().describe("What the agent should write in this section"),
+});
+
+const ComparisonRowSchema = z
+  .object({
+    label: z.string(),
+    field: z.enum(BUILTIN_ROW_FIELDS).optional().describe("Fill the row from this profile field"),
+    description: z.string().optional().describe("What the agent should put in the row when there is no field"),
+  })
+  .refine((row) => row.field || row.description, { message: "A comparison row needs a field or a description" });
+
+const DEFAULT_TOPICS: z.input<typeof TopicSchema>[] = [
+  {
+    name: "pricing",
+    keywords: ["pricing", "plans"],
+    extract: "every plan with its price, billing period, limits, free tier or trial and enterprise terms",
+    tool: "explore-pricing",
+  },
+  { name: "features", keywords: ["features", "product", "platform"], extract: "feature details, grouped by category" },
+  { name: "about", keywords: ["about", "company"], extract: "founding year, headquarters, mission and notable clients" },
+  { name: "integrations", keywords: ["integrations", "partners"], extract: "integrations and partner ecosystem" },
+];
+
+const DEFAULT_ROWS: z.input<typeof ComparisonRowSchema>[] = [
+  { label: "Founded / HQ", field: "foundedHq" },
+  { label: "Pricing Model", field: "pricingModel" },
+  { label: "Free Tier", field: "freeTier" },
+  { label: "Key Differentiator", field: "keyDifferentiator" },
+  { label: "Target Audience", field: "targetAudience" },
+  { label: "Global Coverage", field: "globalCoverage" },
+  { label: "Notable Clients", field: "notableClients" },
+];
+
+const BudgetSchema = z.object({
+  maxCost: z.number().positive().optional().describe("US dollars of LLM usage"),
+  maxTokens: z.number().int().positive().optional().describe("Input + output tokens across all models"),
+  maxPages: z.number().int().positive().optional().describe("Pages opened in the browser; cache hits are free"),
+  maxMinutes: z.number().positive().optional().describe("Wall-clock minutes"),
+  prices: z
+    .record(z.string(), z.object({ input: z.number().min(0), output: z.number().min(0) }))
+    .default({})
+    .describe("US dollars per million tokens by model ID — adds to or overrides the built-in OpenAI prices"),
+});
+
+const SecretSchema = z
+  .union([
+    z.object({ env: z.string().describe("Environment variable holding the value") }),
+    z.object({ file: z.string().describe("File holding the value, e.g. a mounted secret") }),
+  ])
+  .describe("Credentials are never written in the config itself");
+
+const LoginStepSchema = z.union([
+  z.object({ fill: z.string().describe("Selector of the input"), value: SecretSchema }),
+  z.object({ click: z.string().describe("Selector to click") }),
+  z.object({ submit: z.string().describe("Selector of the submit button — clicked, then the next page load is awaited") }),
+  z.object({ waitFor: z.string().describe("Selector that must appear before the next step") }),
+]);
+
+const AuthProfileSchema = z
+  .object({
+    domain: z.string().describe("Site the profile applies to, e.g. 'acme.com' — subdomains included"),
+    storageState: z.string().optional().describe("Playwright storageState file (cookies and localStorage)"),
+    cookies: z.string().optional().describe("Cookie jar file: a JSON cookie export or Netscape cookies.txt"),
+    login: z
+      .object({
+        url: z.string().url(),
+        steps: z.array(LoginStepSchema).min(1),
+      })
+      .optional()
+      .describe("Scripted login, run once per run before the first visit to the domain"),
+    verify: z
+      .object({
+        url: z.string().url().optional().describe("Page to check; defaults to the domain's homepage"),
+        selector: z.string().describe("Only shown when logged in, e.g. an account menu"),
+      })
+      .optional()
+      .describe("Checks that the saved session or login worked, so a logged-out page is never mistaken for the real one"),
+  })
+  .refine((p) => p.storageState || p.cookies || p.login, { message: "An auth profile needs storageState, cookies or login steps" });
+
+export const ConfigSchema = z.object({
+  competitors: z.array(CompetitorConfigSchema).default([]),
+  self: CompetitorConfigSchema.optional().describe(
+    "Our own product — researched like a competitor, compared against the rest, and the report's recommendations are written from its point of view",
+  ),
+  topics: z.array(TopicSchema).min(1).default(DEFAULT_TOPICS),
+  report: z
+    .object({
+      title: z.string().default("Competitive Intelligence Report"),
+      industry: z.string().optional().describe("e.g. 'payments' — mentioned in the prompt so the agent knows what matters"),
+      featureCategories: z.array(z.string()).default(["Core Product", "Developer Tools", "Security & Compliance"]),
+      sections: z.array(SectionSchema).default([]).describe("Extra per-competitor sections"),
+      comparisonRows: z.array(ComparisonRowSchema).min(1).default(DEFAULT_ROWS),
+    })
+    .default({}),
+  output: z
+    .object({
+      report: z.string().default("report.md"),
+      json: z.string().default("report.json"),
+      runsDir: z.string().optional(),
+      cacheDir: z.string().optional(),
+    })
+    .default({}),
+  budget: BudgetSchema.default({}).describe("Run limits — once one is reached the agent wraps up and writes the report"),
+  auth: z.array(AuthProfileSchema).default([]).describe("Logins for sites whose pricing, docs or dashboards need an account"),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
+export type CompetitorConfig = z.infer<typeof CompetitorConfigSchema>;
+export type Topic = z.infer<typeof TopicSchema>;
+export type ComparisonRow = z.infer<typeof ComparisonRowSchema>;
+export type AuthProfile = z.infer<typeof AuthProfileSchema>;
+export type Secret = z.infer<typeof SecretSchema>;
+export type BuiltinRowField = (typeof BUILTIN_ROW_FIELDS)[number];
+
+let config: Config = ConfigSchema.parse({});
+let configFile: string | null = null;
+
+/**
+ * Loads and validates the config file — `file` if given, otherwise the first of
+ * CONFIG_FILES in the working directory. Without either, the defaults stay in place.
+ * Throws with every validation issue listed when the file is invalid.
+ */
+export function loadConfig(file?: string): Config {
+  const found = file ?? CONFIG_FILES.find((name) => fs.existsSync(path.resolve(process.cwd(), name)));
+  if (!found) return config;
+
+  const resolved = path.resolve(process.cwd(), found);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Config file not found: ${resolved}`);
+  }
+
+  const text = fs.readFileSync(resolved, "utf-8");
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(resolved) ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Could not parse ${found}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const parsed = ConfigSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid ${found}:\n${issues.join("\n")}`);
+  }
+
+  config = parsed.data;
+  configFile = resolved;
+  return config;
+}
+
+/**
+ * Replaces the loaded config with one saved earlier — `resume` runs on the
+ * config its run started with, even if the file has changed since.
+ */
+export function useConfig(saved: unknown): Config {
+  config = ConfigSchema.parse(saved);
+  return config;
+}
+
+export function getConfig(): Config {
+  return config;
+}
+
+/** Path of the loaded config file, or null when running on defaults. */
+export function getConfigFile(): string | null {
+  return configFile;
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { CompetitorConfigSchema } from "./config";
+import { CompetitorProfileSchema } from "./report/schema";
+import type { CompetitorProfile } from "./report/schema";
+import { generateObject } from "./agent";
+import type { DatedEntry } from "./tools/crawlSite";
+import type { explorePricing } from "./tools/explorePricing";
+import type { ToolOutput } from "./steps";
+import { getSource } from "./sources";
+
+/**
+ * A dossier is everything gathered about one competitor: the pages read (each
+ * with its sourceId) and notes on what could not be found. Both --pipeline and
+ * the parallel research agents build one per competitor and hand it to the
+ * extraction agent, which turns it into a CompetitorProfile.
+ */
+
+export const PageSchema = z.object({
+  topic: z.string(),
+  url: z.string(),
+  sourceId: z.string().optional(),
+  content: z.string(),
+});
+
+export const DossierSchema = z.object({
+  competitor: CompetitorConfigSchema,
+  pages: z.array(PageSchema),
+  /** What could not be found or read, passed on to the extraction step */
+  notes: z.array(z.string()),
+});
+
+export type Page = z.infer<typeof PageSchema>;
+export type Dossier = z.infer<typeof DossierSchema>;
+type PricingVariant = ToolOutput<typeof explorePricing>["variants"][number];
+
+/**
+ * Flattens an explore-pricing result into one page. Every variant keeps its own
+ * sourceId, so the extraction step can cite per billing period / currency. The
+ * variant read in full is taken from its source, not just the returned chunk.
+ */
+export function formatPricingVariants(variants: PricingVariant[]): string {
+  return variants
+    .map((v) => {
+      const body =
+        "content" in v
+          ? (getSource(v.sourceId)?.content ?? v.content)
+          : "identicalTo" in v
+            ? `(identical to ${v.identicalTo})`
+            : "changesFromFirst" in v
+              ? `Changes from the first variant:\n${v.changesFromFirst}`
+              : "";
+      return `#### Variant "${v.label}" [${v.sourceId}]\n${body}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Flattens a crawl-site result into one page listing its dated entries, newest
+ * first, each with the sourceId of the page it was found on.
+ */
+export function formatCrawlEntries(entries: DatedEntry[], recentSince: string): string {
+  const lines = entries.map((e) => `- ${e.date}${e.recent ? "" : " (older)"} — ${e.title} [${e.sourceId}] ${e.url}${e.summary ? `\n  ${e.summary}` : ""}`);
+  return `Dated entries, newest first (recent = on or after ${recentSince}):\n${lines.join("\n")}`;
+}
+
+/**
+ * Asks the extraction agent for a structured profile built from the dossier's pages only.
+ */
+export async function extractProfile(dossier: Dossier): Promise<CompetitorProfile> {
+  const { competitor, pages, notes } = dossier;
+  const prompt = [
+    `Competitor: ${competitor.name ? `${competitor.name} — ` : ""}${competitor.url}`,
+    "",
+    ...pages.map((p) => `### ${p.topic}${p.sourceId ? ` [${p.sourceId}]` : ""} — ${p.url}\n\n${p.content}\n`),
+    ...(notes.length > 0 ? ["### Not found", ...notes.map((n) => `- ${n}`)] : []),
+  ].join("\n");
+
+  const profile = await generateObject(CompetitorProfileSchema, prompt);
+  // The pages carry no images — callers attach the screenshots they took themselves
+  return { ...profile, screenshots: [] };
+}
@@ -0,0 +1,20 @@
+/**
+ * Structured progress events for runs started by the HTTP server (server.ts).
+ * Each of those runs is a child process; events go to the server over IPC and
+ * are streamed to clients as Server-Sent Events. In a plain CLI run there is no
+ * IPC channel and they go nowhere — the console log is the CLI's progress view.
+ */
+
+export type RunEventType = "live-view" | "step" | "tool-call" | "tool-result" | "error";
+
+export interface RunEvent {
+  type: RunEventType;
+  data: Record<string, unknown>;
+  at: string;
+}
+
+export function emitRunEvent(type: RunEventType, data: Record<string, unknown>) {
+  if (!process.send) return;
+  const event: RunEvent = { type, data, at: new Date().toISOString() };
+  process.send(event);
+}
@@ -0,0 +1,180 @@
+/**
+ * Signatures used by inspect-site to recognise what a site is built and run
+ * with. Each one matches on what a page gives away without any guessing: the
+ * URLs of the scripts it loaded, globals those scripts define, marker elements,
+ * the meta generator tag and the HTTP response headers.
+ */
+
+export type TechCategory =
+  | "framework"
+  | "cms"
+  | "hosting-cdn"
+  | "analytics"
+  | "tag-manager"
+  | "ab-testing"
+  | "chat"
+  | "payments"
+  | "monitoring";
+
+interface Fingerprint {
+  name: string;
+  category: TechCategory;
+  scripts?: RegExp[];
+  /** Properties of `window` the technology defines */
+  globals?: string[];
+  /** CSS selectors of marker elements */
+  selectors?: string[];
+  generator?: RegExp;
+  /** Lowercase header name → pattern its value must match */
+  headers?: Record<string, RegExp>;
+}
+
+/** What a page revealed about itself — the raw material the signatures match against. */
+export interface PageSignals {
+  scripts: string[];
+  globals: string[];
+  selectors: string[];
+  generator: string | null;
+  headers: Record<string, string>;
+}
+
+export interface DetectedTech {
+  name: string;
+  category: TechCategory;
+  /** What matched, e.g. "script js.stripe.com/v3" or "header cf-ray" */
+  evidence: string[];
+}
+
+const ANY = /./;
+
+const FINGERPRINTS: Fingerprint[] = [
+  // Frameworks
+  { name: "Next.js", category: "framework", globals: ["__NEXT_DATA__", "next"], selectors: ["#__next"], scripts: [/\/_next\/static\//], headers: { "x-powered-by": /next\.js/i } },
+  { name: "Nuxt", category: "framework", globals: ["__NUXT__", "$nuxt"], selectors: ["#__nuxt"], scripts: [/\/_nuxt\//] },
+  { name: "Gatsby", category: "framework", globals: ["___gatsby"], selectors: ["#___gatsby"] },
+  { name: "Remix", category: "framework", globals: ["__remixContext"] },
+  { name: "Astro", category: "framework", selectors: ["astro-island"], generator: /^Astro/i },
+  { name: "SvelteKit", category: "framework", globals: ["__sveltekit_dev"], selectors: ["[data-sveltekit-preload-data]"], scripts: [/\/_app\/immutable\//] },
+  { name: "Angular", category: "framework", globals: ["ng"], selectors: ["[ng-version]"] },
+  { name: "React", category: "framework", globals: ["React", "__REACT_DEVTOOLS_GLOBAL_HOOK__"], selectors: ["[data-reactroot]"] },
+  { name: "Vue.js", category: "framework", globals: ["Vue", "__VUE__"], selectors: ["[data-v-app]"] },
+  { name: "jQuery", category: "framework", globals: ["jQuery"] },
+
+  // CMS and site builders
+  { name: "WordPress", category: "cms", generator: /^WordPress/i, scripts: [/\/wp-content\/|\/wp-includes\//] },
+  { name: "Webflow", category: "cms", generator: /Webflow/i, globals: ["Webflow"] },
+  { name: "Framer", category: "cms", generator: /Framer/i, scripts: [/framerusercontent\.com|events\.framer\.com/] },
+  { name: "Contentful", category: "cms", scripts: [/ctfassets\.net/] },
+  { name: "Sanity", category: "cms", scripts: [/cdn\.sanity\.io/] },
+  { name: "HubSpot CMS", category: "cms", generator: /HubSpot/i, headers: { "x-hs-cache-config": ANY } },
+  { name: "Drupal", category: "cms", generator: /Drupal/i, globals: ["Drupal"] },
+
+  // Hosting and CDN
+  { name: "Cloudflare", category: "hosting-cdn", headers: { "cf-ray": ANY, server: /cloudflare/i } },
+  { name: "Amazon CloudFront", category: "hosting-cdn", headers: { "x-amz-cf-id": ANY, via: /cloudfront/i } },
+  { name: "Fastly", category: "hosting-cdn", headers: { "x-fastly-request-id": ANY, "x-served-by": /cache-/i } },
+  { name: "Akamai", category: "hosting-cdn", headers: { "x-akamai-transformed": ANY, server: /akamai/i } },
+  { name: "Vercel", category: "hosting-cdn", headers: { "x-vercel-id": ANY, server: /vercel/i } },
+  { name: "Netlify", category: "hosting-cdn", headers: { "x-nf-request-id": ANY, server: /netlify/i } },
+  { name: "Google Cloud", category: "hosting-cdn", headers: { via: /google/i, server: /^(gws|Google Frontend)/i } },
+  { name: "nginx", category: "hosting-cdn", headers: { server: /nginx/i } },
+
+  // Analytics
+  { name: "Google Analytics", category: "analytics", globals: ["gtag", "ga"], scripts: [/google-analytics\.com|googletagmanager\.com\/gtag\//] },
+  { name: "Segment", category: "analytics", scripts: [/cdn\.segment\.com/], globals: ["analytics"] },
+  { name: "Amplitude", category: "analytics", scripts: [/amplitude\.com/], globals: ["amplitude"] },
+  { name: "Mixpanel", category: "analytics", scripts: [/mxpnl\.com|mixpanel\.com/], globals: ["mixpanel"] },
+  { name: "Heap", category: "analytics", scripts: [/heapanalytics\.com/], globals: ["heap"] },
+  { name: "PostHog", category: "analytics", scripts: [/posthog\.com/], globals: ["posthog"] },
+  { name: "Hotjar", category: "analytics", scripts: [/hotjar\.com/], globals: ["hj"] },
+  { name: "FullStory", category: "analytics", scripts: [/fullstory\.com/], globals: ["FS"] },
+  { name: "Plausible", category: "analytics", scripts: [/plausible\.io/], globals: ["plausible"] },
+  { name: "Microsoft Clarity", category: "analytics", scripts: [/clarity\.ms/], globals: ["clarity"] },
+  { name: "Adobe Analytics", category: "analytics", scripts: [/omtrdc\.net|2o7\.net/], globals: ["s_account"] },
+
+  // Tag managers
+  { name: "Google Tag Manager", category: "tag-manager", scripts: [/googletagmanager\.com\/gtm\.js/], globals: ["google_tag_manager"] },
+  { name: "Tealium", category: "tag-manager", scripts: [/tiqcdn\.com/], globals: ["utag"] },
+  { name: "Adobe Launch", category: "tag-manager", scripts: [/assets\.adobedtm\.com/], globals: ["_satellite"] },
+
+  // A/B testing and personalisation
+  { name: "Optimizely", category: "ab-testing", scripts: [/optimizely\.com/], globals: ["optimizely"] },
+  { name: "VWO", category: "ab-testing", scripts: [/visualwebsiteoptimizer\.com|vwo\.com/], globals: ["_vwo_code", "VWO"] },
+  { name: "LaunchDarkly", category: "ab-testing", scripts: [/launchdarkly\.com/] },
+  { name: "AB Tasty", category: "ab-testing", scripts: [/abtasty\.com/], globals: ["ABTasty"] },
+  { name: "Statsig", category: "ab-testing", scripts: [/statsig/], globals: ["statsig"] },
+  { name: "Google Optimize", category: "ab-testing", scripts: [/googleoptimize\.com/] },
+
+  // Chat and support widgets
+  { name: "Intercom", category: "chat", scripts: [/intercom(cdn)?\.(io|com)|widget\.intercom\.io/], globals: ["Intercom"] },
+  { name: "Drift", category: "chat", scripts: [/drift\.com|driftt\.com/], globals: ["drift"] },
+  { name: "Zendesk", category: "chat", scripts: [/zdassets\.com|zendesk\.com/], globals: ["zE"] },
+  { name: "HubSpot Chat", category: "chat", scripts: [/js\.usemessages\.com|hs-scripts\.com/], globals: ["HubSpotConversations"] },
+  { name: "Crisp", category: "chat", scripts: [/client\.crisp\.chat/], globals: ["$crisp"] },
+  { name: "Freshchat", category: "chat", scripts: [/wchat\.freshchat\.com/], globals: ["fcWidget"] },
+  { name: "LiveChat", category: "chat", scripts: [/cdn\.livechatinc\.com/], globals: ["LiveChatWidget"] },
+  { name: "Qualified", category: "chat", scripts: [/js\.qualified\.com/], globals: ["qualified"] },
+
+  // Payment widgets
+  { name: "Stripe.js", category: "payments", scripts: [/js\.stripe\.com/], globals: ["Stripe"] },
+  { name: "PayPal", category: "payments", scripts: [/paypal\.com\/sdk|paypalobjects\.com/], globals: ["paypal"] },
+  { name: "Adyen Web", category: "payments", scripts: [/checkoutshopper-[a-z]+\.adyen\.com/], globals: ["AdyenCheckout"] },
+  { name: "Braintree", category: "payments", scripts: [/js\.braintreegateway\.com/], globals: ["braintree"] },
+  { name: "Paddle", category: "payments", scripts: [/cdn\.paddle\.com/], globals: ["Paddle"] },
+  { name: "Chargebee", category: "payments", scripts: [/js\.chargebee\.com/], globals: ["Chargebee"] },
+  { name: "Apple Pay", category: "payments", scripts: [/applepay\.cdn-apple\.com/] },
+
+  // Error tracking and monitoring
+  { name: "Sentry", category: "monitoring", scripts: [/sentry-cdn\.com|browser\.sentry/], globals: ["Sentry", "__SENTRY__"] },
+  { name: "Datadog RUM", category: "monitoring", scripts: [/datadoghq-browser-agent\.com/], globals: ["DD_RUM"] },
+  { name: "New Relic", category: "monitoring", scripts: [/nr-data\.net|js-agent\.newrelic\.com/], globals: ["newrelic", "NREUM"] },
+];
+
+/** Every global any signature looks for, so the page can be probed in one evaluate call. */
+export const GLOBAL_PROBES = [...new Set(FINGERPRINTS.flatMap((f) => f.globals ?? []))];
+
+/** Every marker selector any signature looks for. */
+export const SELECTOR_PROBES = [...new Set(FINGERPRINTS.flatMap((f) => f.selectors ?? []))];
+
+/** Every response header any signature looks at. */
+export const HEADER_PROBES = [...new Set(FINGERPRINTS.flatMap((f) => Object.keys(f.headers ?? {})))];
+
+/** Shortens a script URL to host + path for evidence lines. */
+function shortUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.hostname}${u.pathname}`.slice(0, 80);
+  } catch {
+    return url.slice(0, 80);
+  }
+}
+
+/**
+ * Matches the signals against every signature. A technology is reported once,
+ * with everything that pointed to it.
+ */
+export function detectTechnologies(signals: PageSignals): DetectedTech[] {
+  const detected: DetectedTech[] = [];
+  for (const f of FINGERPRINTS) {
+    const evidence: string[] = [];
+    for (const pattern of f.scripts ?? []) {
+      const script = signals.scripts.find((s) => pattern.test(s));
+      if (script) evidence.push(`script ${shortUrl(script)}`);
+    }
+    for (const g of f.globals ?? []) {
+      if (signals.globals.includes(g)) evidence.push(`global window.${g}`);
+    }
+    for (const s of f.selectors ?? []) {
+      if (signals.selectors.includes(s)) evidence.push(`element ${s}`);
+    }
+    if (f.generator && signals.generator && f.generator.test(signals.generator)) {
+      evidence.push(`meta generator "${signals.generator}"`);
+    }
+    for (const [header, pattern] of Object.entries(f.headers ?? {})) {
+      const value = signals.headers[header];
+      if (value !== undefined && pattern.test(value)) evidence.push(pattern === ANY ? `header ${header}` : `header ${header}: ${value}`);
+    }
+    if (evidence.length > 0) detected.push({ name: f.name, category: f.category, evidence: [...new Set(evidence)] });
+  }
+  return detected;
+}
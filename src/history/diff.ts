@@ -0,0 +1,273 @@
+import { readRunFile } from "../runs";
+import type { PageSnapshotInfo } from "../runs";
+import { ReportSchema } from "../report/schema";
+import type { CompetitorProfile, Report } from "../report/schema";
+import { shortDiff, sentencesToLines } from "./textDiff";
+
+/**
+ * Compares two runs and renders a markdown changelog: plan and price changes,
+ * changed comparison-table values, new/removed features and reworded
+ * positioning from report.json, plus short section diffs for every page
+ * scraped in both runs.
+ */
+
+// Citation IDs are assigned per run, so [S3] in one run is unrelated to [S3] in another
+function stripCitations(text: string): string {
+  return text.replace(/\s*\[S\d+(?:\s*,\s*S\d+)*\]/g, "").trim();
+}
+
+function same(a: string, b: string): boolean {
+  const norm = (t: string) => stripCitations(t).toLowerCase().replace(/\s+/g, " ");
+  return norm(a) === norm(b);
+}
+
+/**
+ * Competitors are matched across runs by hostname, ignoring "www.".
+ */
+function siteKey(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Parses a JSON file from a run, or returns null — with a message — when it is
+ * truncated or otherwise unreadable (e.g. the run was killed mid-write), so one
+ * bad run doesn't stop the changelog.
+ */
+function readRunJson(runId: string, file: string): unknown {
+  const raw = readRunFile(runId, file);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    console.error(`[MaSteel] Skipping ${file} of run ${runId} — not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+function loadReport(runId: string): Report | null {
+  const raw = readRunJson(runId, "report.json");
+  if (!raw) return null;
+  const parsed = ReportSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+function loadPages(runId: string): PageSnapshotInfo[] {
+  const raw = readRunJson(runId, "pages.json");
+  return Array.isArray(raw) ? (raw as PageSnapshotInfo[]) : [];
+}
+
+function diffBlock(before: string, after: string): string {
+  return "```diff\n" + shortDiff(before, after) + "\n```";
+}
+
+function comparePricing(before: CompetitorProfile, after: CompetitorProfile): string[] {
+  const lines: string[] = [];
+  const key = (plan: string) => stripCitations(plan).toLowerCase();
+  const oldTiers = new Map(before.pricing.tiers.map((t) => [key(t.plan), t]));
+  const newTiers = new Map(after.pricing.tiers.map((t) => [key(t.plan), t]));
+
+  for (const [k, t] of newTiers) {
+    const old = oldTiers.get(k);
+    if (!old) {
+      lines.push(`- New plan: **${stripCitations(t.plan)}** — ${stripCitations(t.price)}`);
+    } else if (!same(old.price, t.price) || old.amount !== t.amount || old.billingPeriod !== t.billingPeriod) {
+      lines.push(
+        `- Price change: **${stripCitations(t.plan)}** — ${stripCitations(old.price)} (${old.billingPeriod}) → ${stripCitations(t.price)} (${t.billingPeriod})`,
+      );
+    }
+  }
+  for (const [k, t] of oldTiers) {
+    if (!newTiers.has(k)) {
+      lines.push(`- Removed plan: **${stripCitations(t.plan)}** (was ${stripCitations(t.price)})`);
+    }
+  }
+
+  const fields: [string, string, string][] = [
+    ["Pricing model", before.pricing.model, after.pricing.model],
+    ["Free tier", before.pricing.freeTier, after.pricing.freeTier],
+  ];
+  for (const [label, a, b] of fields) {
+    if (!same(a, b)) {
+      lines.push(`- ${label}: ${stripCitations(a)} → ${stripCitations(b)}`);
+    }
+  }
+  return lines;
+}
+
+function compareTableRows(before: CompetitorProfile, after: CompetitorProfile): string[] {
+  const lines: string[] = [];
+  const oldRows = new Map(before.comparison.map((r) => [r.row.toLowerCase(), r.value]));
+  for (const { row, value } of after.comparison) {
+    const old = oldRows.get(row.toLowerCase());
+    if (old !== undefined && !same(old, value)) {
+      lines.push(`- ${row}: ${stripCitations(old)} → ${stripCitations(value)}`);
+    }
+  }
+  return lines;
+}
+
+function compareFeatures(before: CompetitorProfile, after: CompetitorProfile): string[] {
+  const flatten = (c: CompetitorProfile) =>
+    new Map(c.featureGroups.flatMap((g) => g.features.map((f) => [stripCitations(f.name).toLowerCase(), { group: g.category, ...f }] as const)));
+  const oldFeatures = flatten(before);
+  const newFeatures = flatten(after);
+
+  const lines: string[] = [];
+  for (const [k, f] of newFeatures) {
+    if (!oldFeatures.has(k)) lines.push(`- New: **${stripCitations(f.name)}** (${f.group}) — ${stripCitations(f.description)}`);
+  }
+  for (const [k, f] of oldFeatures) {
+    if (!newFeatures.has(k)) lines.push(`- Removed: **${stripCitations(f.name)}** (${f.group})`);
+  }
+  return lines;
+}
+
+function comparePositioning(before: CompetitorProfile, after: CompetitorProfile): string[] {
+  const lines: string[] = [];
+  const fields: [string, string, string][] = [
+    ["Positioning", before.positioning.summary, after.positioning.summary],
+    ["Value proposition", before.positioning.valueProposition, after.positioning.valueProposition],
+    ["Target audience", before.positioning.targetAudience, after.positioning.targetAudience],
+  ];
+  for (const [label, a, b] of fields) {
+    if (!same(a, b)) {
+      lines.push(`- ${label} reworded:`, "", diffBlock(sentencesToLines(stripCitations(a)), sentencesToLines(stripCitations(b))), "");
+    }
+  }
+
+  const oldQuotes = before.positioning.quotes.map(stripCitations);
+  const newQuotes = after.positioning.quotes.map(stripCitations);
+  for (const q of newQuotes) {
+    if (!oldQuotes.some((o) => same(o, q))) lines.push(`- New messaging: "${q}"`);
+  }
+  for (const q of oldQuotes) {
+    if (!newQuotes.some((n) => same(n, q))) lines.push(`- Dropped messaging: "${q}"`);
+  }
+  return lines;
+}
+
+/**
+ * Splits page markdown into sections keyed by heading text; content before the
+ * first heading is keyed "(top of page)".
+ */
+function sections(markdown: string): Map<string, string> {
+  const result = new Map<string, string>();
+  let heading = "(top of page)";
+  let body: string[] = [];
+  const flush = () => {
+    const existing = result.get(heading);
+    result.set(heading, existing ? `${existing}\n${body.join("\n")}` : body.join("\n"));
+  };
+
+  for (const line of markdown.split("\n")) {
+    const m = line.match(/^#{1,6}\s+(.*)$/);
+    if (m) {
+      flush();
+      heading = m[1].trim();
+      body = [];
+    } else {
+      body.push(line);
+    }
+  }
+  flush();
+  return result;
+}
+
+function comparePages(oldRun: string, newRun: string, oldPages: PageSnapshotInfo[], newPages: PageSnapshotInfo[]): string[] {
+  const lines: string[] = [];
+  const oldByUrl = new Map(oldPages.map((p) => [p.url, p]));
+  const newByUrl = new Map(newPages.map((p) => [p.url, p]));
+
+  for (const [url, page] of newByUrl) {
+    const old = oldByUrl.get(url);
+    if (!old) {
+      lines.push(`- New page: [${page.title || url}](${url})`);
+      continue;
+    }
+    const before = readRunFile(oldRun, old.file) ?? "";
+    const after = readRunFile(newRun, page.file) ?? "";
+    if (before === after) continue;
+
+    const oldSections = sections(before);
+    const newSections = sections(after);
+    const changes: string[] = [];
+    for (const [heading, body] of newSections) {
+      const prev = oldSections.get(heading);
+      if (prev === undefined) {
+        changes.push(`  - Added section: ${heading}`);
+      } else if (prev.trim() !== body.trim()) {
+        changes.push(`  - Changed section: ${heading}`, "", diffBlock(prev, body).replace(/^/gm, "    "), "");
+      }
+    }
+    for (const heading of oldSections.keys()) {
+      if (!newSections.has(heading)) changes.push(`  - Removed section: ${heading}`);
+    }
+    if (changes.length > 0) {
+      lines.push(`- [${page.title || url}](${url})`, ...changes);
+    }
+  }
+  for (const [url, page] of oldByUrl) {
+    if (!newByUrl.has(url)) lines.push(`- No longer scraped: [${page.title || url}](${url})`);
+  }
+  return lines;
+}
+
+function subsection(title: string, lines: string[]): string[] {
+  return lines.length > 0 ? [`### ${title}`, "", ...lines, ""] : [];
+}
+
+/**
+ * Builds the changelog markdown for `newRun` relative to `oldRun`.
+ */
+export function compareRuns(oldRun: string, newRun: string): string {
+  const oldReport = loadReport(oldRun);
+  const newReport = loadReport(newRun);
+  const oldPages = loadPages(oldRun);
+  const newPages = loadPages(newRun);
+
+  // Every site seen in either run, from reports first and pages as a fallback
+  const sites = new Map<string, { name: string; before?: CompetitorProfile; after?: CompetitorProfile }>();
+  for (const c of oldReport?.competitors ?? []) sites.set(siteKey(c.url), { name: c.name, before: c });
+  for (const c of newReport?.competitors ?? []) {
+    const entry = sites.get(siteKey(c.url));
+    if (entry) entry.after = c;
+    else sites.set(siteKey(c.url), { name: c.name, after: c });
+  }
+  for (const p of [...oldPages, ...newPages]) {
+    if (!sites.has(siteKey(p.url))) sites.set(siteKey(p.url), { name: siteKey(p.url) });
+  }
+
+  const out: string[] = ["# Competitor Changelog", "", `*Comparing run ${oldRun} → ${newRun}*`, ""];
+  if (!oldReport || !newReport) {
+    out.push(`> ${!oldReport ? oldRun : newRun} has no readable report.json — only page-level changes are shown.`, "");
+  }
+
+  for (const [key, { name, before, after }] of sites) {
+    const body: string[] = [];
+    if (oldReport && newReport) {
+      if (before && !after) {
+        body.push("Not researched in the newer run.", "");
+      } else if (!before && after) {
+        body.push("New competitor in this run — nothing to compare against.", "");
+      } else if (before && after) {
+        body.push(
+          ...subsection("Pricing", comparePricing(before, after)),
+          ...subsection("Comparison", compareTableRows(before, after)),
+          ...subsection("Features", compareFeatures(before, after)),
+          ...subsection("Positioning & Messaging", comparePositioning(before, after)),
+        );
+      }
+    }
+
+    const sitePages = (pages: PageSnapshotInfo[]) => pages.filter((p) => siteKey(p.url) === key);
+    body.push(...subsection("Pages", comparePages(oldRun, newRun, sitePages(oldPages), sitePages(newPages))));
+
+    out.push(`## ${name} (${key})`, "", ...(body.length > 0 ? body : ["No changes detected.", ""]), "---", "");
+  }
+
+  return out.join("\n");
+}
@@ -0,0 +1,67 @@
+// Small LCS line diff — enough for the short section diffs in the changelog,
+// without pulling in a diff library.
+
+const MAX_DIFF_LINES = 12;
+// Above this many LCS cells, fall back to a cheaper set difference of lines
+const MAX_LCS_CELLS = 4000000;
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+function diffOps(a: string[], b: string[]): Op[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    const inA = new Set(a);
+    const inB = new Set(b);
+    return [
+      ...a.filter((l) => !inB.has(l)).map((line): Op => ({ kind: "-", line })),
+      ...b.filter((l) => !inA.has(l)).map((line): Op => ({ kind: "+", line })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: "-", line: a[i++] });
+    } else {
+      ops.push({ kind: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: "-", line: a[i++] });
+  while (j < b.length) ops.push({ kind: "+", line: b[j++] });
+  return ops;
+}
+
+/**
+ * Returns only the removed/added lines between two texts as a `diff` block body
+ * ("- old" / "+ new"), capped at a few lines. Blank lines are ignored.
+ */
+export function shortDiff(before: string, after: string, maxLines: number = MAX_DIFF_LINES): string {
+  const split = (t: string) => t.split("\n").map((l) => l.trimEnd()).filter((l) => l.trim() !== "");
+  const changed = diffOps(split(before), split(after)).filter((op) => op.kind !== " ");
+
+  const shown = changed.slice(0, maxLines).map((op) => `${op.kind} ${op.line}`);
+  if (changed.length > maxLines) {
+    shown.push(`… ${changed.length - maxLines} more changed line(s)`);
+  }
+  return shown.join("\n");
+}
+
+/**
+ * Splits text into sentences, one per line, so prose diffs show which sentence changed.
+ */
+export function sentencesToLines(text: string): string {
+  return text.split(/(?<=[.!?])\s+/).join("\n");
+}
@@ -1,69 +1,376 @@
 import "dotenv/config";
-import { getSession, releaseSession } from "./session";
-import { agent } from "./agent";
+import { parseArgs } from "util";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { LLMStepResult } from "@mastra/core/agent";
+import type { MessageInput } from "@mastra/core/agent/message-list";
+import { getSession, releaseSession, setBrowserProvider, setMaxSessions, setPageConcurrency, getPageConcurrency, getBrowserProvider } from "./session";
+import { configureCache, isCacheOnly } from "./cache";
+import { getRunId, getRunDir, listRuns, configureRuns } from "./runs";
+import { compareRuns } from "./history/diff";
+import { configureModels, describeModels, hasSeparateSynthesisModel, type LlmProvider } from "./models";
+import { loadConfig, useConfig, getConfig, getConfigFile } from "./config";
+import type { CompetitorConfig, Config } from "./config";
+import { agent, synthesisAgent, selfLabel, BROWSING_TOOLS } from "./agent";
+import { runPipeline } from "./pipeline";
+import { runSupervisor } from "./supervisor";
+import { configureBudget, wrapUpWhenOverBudget, usageSummary, usageSnapshot } from "./usage";
+import { writeRunFile } from "./runs";
+import { startCheckpoint, saveMessages, resumeFromCheckpoint } from "./checkpoint";
+import type { ResumedRun, RunMode } from "./checkpoint";
+import { emitRunEvent } from "./events";
+import { configureArchive } from "./archive";
 
 // ---------------------------------------------------------------------------
-// 1. Parse competitor URLs from CLI args
+// 1. Parse competitor URLs and flags from CLI args
 // ---------------------------------------------------------------------------
-const urls = process.argv.filter((arg) => arg.startsWith("http"));
+const { values: flags, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    browser: { type: "string" },
+    "max-sessions": { type: "string" },
+    refresh: { type: "boolean" },
+    "cache-only": { type: "boolean" },
+    record: { type: "boolean" },
+    replay: { type: "string" },
+    config: { type: "string" },
+    self: { type: "string" },
+    pipeline: { type: "boolean" },
+    "single-agent": { type: "boolean" },
+    concurrency: { type: "string" },
+    "max-cost": { type: "string" },
+    "max-tokens": { type: "string" },
+    "max-pages": { type: "string" },
+    "max-minutes": { type: "string" },
+    "llm-provider": { type: "string" },
+    model: { type: "string" },
+    "browsing-model": { type: "string" },
+    "synthesis-model": { type: "string" },
+    "run-id": { type: "string" },
+    "output-dir": { type: "string" },
+  },
+  allowPositionals: true,
+  strict: false,
+});
+const stringFlag = (name: string) => (typeof flags[name] === "string" ? (flags[name] as string) : undefined);
+const numberFlag = (name: string) => (stringFlag(name) !== undefined ? Number(stringFlag(name)) : undefined);
 
-if (urls.length === 0) {
-  console.error("Usage: npx tsx src/index.ts <url1> <url2> ...");
+// Project config — loaded first, since it can move the runs and cache directories
+let config: Config;
+try {
+  config = loadConfig(stringFlag("config"));
+  configureRuns({ dir: config.output.runsDir, id: stringFlag("run-id") });
+  configureCache({ dir: config.output.cacheDir });
+} catch (err) {
+  console.error(`[MaSteel] ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
+
+// ---------------------------------------------------------------------------
+// `diff [previousRunId] [latestRunId]` — changelog between two saved runs, no browsing
+// ---------------------------------------------------------------------------
+if (positionals[0] === "diff") {
+  const runs = listRuns();
+  const latest = positionals[2] ?? runs[runs.length - 1];
+  const previous = positionals[1] ?? runs[runs.indexOf(latest) - 1];
+  if (!latest || !previous) {
+    console.error(`[MaSteel] Need two saved runs to diff — found ${runs.length} in runs/`);
+    process.exit(1);
+  }
+  for (const id of [previous, latest]) {
+    if (!runs.includes(id)) {
+      console.error(`[MaSteel] Unknown run "${id}" — available: ${runs.join(", ") || "none"}`);
+      process.exit(1);
+    }
+  }
+
+  const changelog = compareRuns(previous, latest);
+  const file = path.join(getRunDir(latest), "changelog.md");
+  fs.writeFileSync(file, changelog, "utf-8");
+  console.log(changelog);
+  console.log(`[MaSteel] Changelog written to ${file}`);
+  process.exit(0);
+}
+
+// ---------------------------------------------------------------------------
+// `resume <runId>` — continues an interrupted run from its checkpoint
+// ---------------------------------------------------------------------------
+let resumed: ResumedRun | null = null;
+if (positionals[0] === "resume") {
+  const runId = positionals[1];
+  if (!runId) {
+    console.error(`[MaSteel] Usage: npx tsx src/index.ts resume <runId> — recent runs: ${listRuns().slice(-5).join(", ") || "none"}`);
+    process.exit(1);
+  }
+  try {
+    resumed = resumeFromCheckpoint(runId);
+    config = useConfig(resumed.manifest.config);
+  } catch (err) {
+    console.error(`[MaSteel] ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+  if (resumed.finished) {
+    console.log(`[MaSteel] Run ${runId} already wrote its report — nothing to resume`);
+    process.exit(0);
+  }
+}
+
+// --self: our own product, researched like a competitor and compared against the rest.
+// It replaces the config's `self`; a resumed run keeps the one it started with.
+const selfUrl = stringFlag("self");
+if (selfUrl && !resumed) {
+  if (!/^https?:\/\//.test(selfUrl)) {
+    console.error(`[MaSteel] --self needs the URL of our own site, got "${selfUrl}"`);
+    process.exit(1);
+  }
+  config = useConfig({ ...config, self: { url: selfUrl, subpages: {} } });
+}
+
+// URLs on the command line replace the config's competitor list; a resumed run keeps its own
+const cliUrls = positionals.filter((arg) => arg.startsWith("http"));
+const competitors: CompetitorConfig[] = (
+  resumed ? resumed.manifest.competitors : cliUrls.length > 0 ? cliUrls.map((url) => ({ url, subpages: {} })) : config.competitors
+).filter((c) => c.url !== config.self?.url);
+const mode: RunMode = resumed ? resumed.manifest.mode : flags.pipeline ? "pipeline" : flags["single-agent"] ? "single-agent" : "supervisor";
+
+if (competitors.length === 0) {
+  console.error("Usage: npx tsx src/index.ts [--config FILE] [--self URL] [--pipeline | --single-agent] [--concurrency N] [--browser steel|local] [--max-sessions N]");
+  console.error("         [--refresh | --cache-only | --record | --replay RUN_ID] [--max-cost USD] [--max-tokens N] [--max-pages N] [--max-minutes N] [--run-id ID] [--output-dir DIR]");
+  console.error("         [--llm-provider openai|openai-compatible|fake] [--model M] [--browsing-model M] [--synthesis-model M] <url1> <url2> ...");
+  console.error("       (URLs can be left out when masteel.config.json/yaml lists competitors)");
+  console.error("       npx tsx src/index.ts diff [previousRunId] [latestRunId]");
+  console.error("       npx tsx src/index.ts resume <runId>");
   console.error("Example: npx tsx src/index.ts https://stripe.com https://braintree.com");
   process.exit(1);
 }
 
-console.log(`\n[MaSteel] Competitors to research: ${urls.length}`);
-urls.forEach((u, i) => console.log(`  ${i + 1}. ${u}`));
+// --output-dir: report.md / report.json go there instead of the config's paths
+// (the HTTP server points each job at its own run directory)
+const outputDir = stringFlag("output-dir");
+if (outputDir) {
+  config = useConfig({ ...config, output: { ...config.output, report: path.join(outputDir, "report.md"), json: path.join(outputDir, "report.json") } });
+}
+
+try {
+  // A replay never touches the network, so it defaults to the local browser
+  const replayRunId = stringFlag("replay");
+  setBrowserProvider(typeof flags.browser === "string" ? flags.browser : replayRunId ? "local" : process.env.BROWSER_PROVIDER || "steel");
+  if (typeof flags["max-sessions"] === "string") {
+    setMaxSessions(Number(flags["max-sessions"]));
+  }
+  if (typeof flags.concurrency === "string") {
+    setPageConcurrency(Number(flags.concurrency));
+  }
+  if (flags.pipeline && flags["single-agent"]) {
+    throw new Error("--pipeline and --single-agent can't be combined");
+  }
+  const cacheFlags = [flags.refresh && "--refresh", flags["cache-only"] && "--cache-only", flags.record && "--record", replayRunId && "--replay"].filter(Boolean);
+  if (cacheFlags.length > 1) {
+    throw new Error(`${cacheFlags.join(" and ")} can't be combined`);
+  }
+  // Recording must visit every page, and a replay's pages shouldn't land in the shared cache
+  configureCache({ mode: flags.refresh || flags.record ? "refresh" : flags["cache-only"] ? "only" : replayRunId ? "off" : "normal" });
+  if (flags.record) {
+    configureArchive({ mode: "record" });
+  } else if (replayRunId) {
+    configureArchive({ mode: "replay", replayRunId });
+  }
+  const { prices, ...limits } = config.budget;
+  configureBudget(
+    {
+      maxCost: numberFlag("max-cost") ?? limits.maxCost,
+      maxTokens: numberFlag("max-tokens") ?? limits.maxTokens,
+      maxPages: numberFlag("max-pages") ?? limits.maxPages,
+      maxMinutes: numberFlag("max-minutes") ?? limits.maxMinutes,
+    },
+    prices,
+  );
+  configureModels({
+    provider: stringFlag("llm-provider") as LlmProvider | undefined,
+    model: stringFlag("model"),
+    browsingModel: stringFlag("browsing-model"),
+    synthesisModel: stringFlag("synthesis-model"),
+  });
+} catch (err) {
+  console.error(`[MaSteel] ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
+
+console.log(`\n[MaSteel] ${resumed ? "Resuming run" : "Run"} ${getRunId()} — snapshots in ${getRunDir()}`);
+console.log(`[MaSteel] Config: ${resumed ? "as saved with the run" : (getConfigFile() ?? "defaults (no masteel.config file)")}`);
+console.log(`[MaSteel] Model: ${describeModels()}`);
+if (config.self) {
+  console.log(`[MaSteel] Our product: ${selfLabel(config)} (gap analysis against the competitors)`);
+}
+console.log(`[MaSteel] Competitors to research: ${competitors.length}`);
+competitors.forEach((c, i) => console.log(`  ${i + 1}. ${c.name ? `${c.name} — ` : ""}${c.url}`));
 
 // ---------------------------------------------------------------------------
 // 2. Run
 // ---------------------------------------------------------------------------
+function saveUsage() {
+  const summary = usageSummary();
+  console.log(`\n${summary}`);
+  writeRunFile("usage.md", summary);
+  writeRunFile("usage.json", JSON.stringify(usageSnapshot(), null, 2));
+}
+
+// Ctrl-C, or a cancel from the HTTP server: release the browser session before exiting
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, async () => {
+    console.log(`\n[MaSteel] ${signal} received — stopping the run`);
+    await releaseSession().catch(() => {});
+    saveUsage();
+    // The shell convention for a signal exit: 130 for SIGINT, 143 for SIGTERM
+    process.exit(128 + os.constants.signals[signal]);
+  });
+}
+
 (async () => {
   try {
-    // Pre-warm the Steel session so the live viewer URL prints before any tool
-    // calls happen.
-    await getSession();
-    console.log(`[MaSteel] Steel live viewer ready — watch your agent browse in real time`);
+    // Pre-warm the browser session so the live viewer URL prints before any tool
+    // calls happen. Cache-only runs never navigate, so they skip the session entirely.
+    if (isCacheOnly()) {
+      console.log(`[MaSteel] Cache-only run — pages come from the on-disk cache, no browser session`);
+    } else {
+      const session = await getSession();
+      if (session.liveViewUrl) {
+        console.log(`[MaSteel] ${getBrowserProvider().label} live viewer ready — watch your agent browse in real time`);
+      }
+    }
+
+    // Real-time step logging; parallel research agents tag each line with their competitor
+    const logStep = (step: LLMStepResult, label?: string) => {
+      const who = label ? `${label} ` : "";
+      // Log assistant reasoning text
+      if (step.text) {
+        console.log(`\n[${label ?? "Agent"}] ${step.text}`);
+        emitRunEvent("step", { label, text: step.text });
+      }
+
+      // Log each tool call + its result
+      for (const tc of step.toolCalls || []) {
+        console.log(`\n[${label ?? "Agent"} → ${tc.payload.toolName || "tool"}] ${JSON.stringify(tc.payload.args, null, 2)}`);
+        emitRunEvent("tool-call", { label, tool: tc.payload.toolName, args: tc.payload.args });
+      }
+      for (const tr of step.toolResults || []) {
+        const raw: string | undefined = JSON.stringify(tr.payload.result);
+        const preview = raw?.slice(0, 200);
+        console.log(`[${who}${tr.payload.toolName || "tool"} →] ${preview}${(raw?.length ?? 0) > 200 ? " ..." : ""}`);
+        emitRunEvent("tool-result", { label, tool: tr.payload.toolName, preview, truncated: (raw?.length ?? 0) > 200 });
+      }
+    };
+
+    if (!resumed) {
+      startCheckpoint({ mode, competitors, config });
+    }
+
+    if (mode === "pipeline") {
+      // Crawl order fixed in code; the LLM only extracts profiles and writes the summary
+      console.log(`[MaSteel] Pipeline mode — ${getConfig().topics.length} topic(s) per competitor`);
+      const outcome = await runPipeline(competitors);
+      if (!outcome.success) {
+        throw new Error(`write-report rejected the report:\n${(outcome.errors ?? []).join("\n")}`);
+      }
+      console.log(`\n[MaSteel] Done. Check ${config.output.report} and ${config.output.json}.`);
+      return;
+    }
+
+    if (mode === "supervisor") {
+      // One research agent per competitor, then a synthesis agent over their dossiers
+      const concurrency = getPageConcurrency();
+      console.log(`[MaSteel] Supervisor mode — up to ${concurrency} competitor(s) and page(s) at a time`);
+      const outcome = await runSupervisor(competitors, { concurrency, self: config.self, onStep: (label, step) => logStep(step, label) });
+      if (!outcome.success) {
+        throw new Error(`write-report rejected the report:\n${(outcome.errors ?? []).join("\n")}`);
+      }
+      console.log(`\n[MaSteel] Done. Check ${config.output.report} and ${config.output.json}.`);
+      return;
+    }
 
-    // Build the user prompt
+    // Build the user prompt, with any known subpages listed under their competitor
+    const ours = config.self
+      ? `Our own product — research it the same way first, and pass it to write-report as self: ${selfLabel(config)}\n` +
+        Object.entries(config.self.subpages)
+          .map(([topic, url]) => `   Known ${topic} page: ${url}\n`)
+          .join("")
+      : "";
     const userPrompt =
       "Research the following competitors and produce a full competitive intelligence report:\n" +
-      urls.map((u, i) => `${i + 1}. ${u}`).join("\n");
+      ours +
+      competitors
+        .map((c, i) =>
+          [
+            `${i + 1}. ${c.name ? `${c.name} — ` : ""}${c.url}`,
+            ...Object.entries(c.subpages).map(([topic, url]) => `   Known ${topic} page: ${url}`),
+          ].join("\n"),
+        )
+        .join("\n");
 
     // ---------------------------------------------------------------------------
-    // 3. Run the agent with real-time step logging
+    // 3. --single-agent: one agent researches every competitor in one conversation
     // ---------------------------------------------------------------------------
-    const result = await agent.generate(userPrompt, {
-      maxSteps: 50,
-      onStepFinish: (step) => {
-        // Log assistant reasoning text
-        if (step.text) {
-          console.log(`\n[Agent] ${step.text}`);
-        }
-
-        // Log each tool call + its result
-        for (const tc of step.toolCalls || []) {
-          console.log(`\n[Agent → ${tc.payload?.toolName || "tool"}] ${JSON.stringify(tc.payload?.args, null, 2)}`);
-        }
-        for (const tr of step.toolResults || []) {
-          const raw = JSON.stringify(tr.payload?.result);
-          const preview = raw?.slice(0, 200);
-          console.log(`[${tr.payload?.toolName || "tool"} →] ${preview}${(raw?.length ?? 0) > 200 ? " ..." : ""}`);
-        }
-      },
-    });
+    // A resumed run picks up its saved conversation; every step rewrites the checkpoint
+    const input: MessageInput[] = resumed?.messages
+      ? [
+          ...resumed.messages,
+          {
+            role: "user",
+            content:
+              "The run was interrupted and has now been resumed. Continue the research where you left off — don't repeat the " +
+              "tool calls above — and finish with write-report.",
+          },
+        ]
+      : [{ role: "user", content: userPrompt }];
+    const onStep = (step: LLMStepResult) => {
+      logStep(step);
+      saveMessages([...input, ...(step.response?.messages ?? [])]);
+    };
+
+    let result;
+    if (!hasSeparateSynthesisModel()) {
+      result = await agent.generate(input, { maxSteps: 50, onStepFinish: onStep, prepareStep: wrapUpWhenOverBudget(true) });
+    } else {
+      // Browsing loop on the browsing model without write-report, then one
+      // synthesis pass over the same conversation on the synthesis model.
+      const research = await agent.generate(input, {
+        maxSteps: 50,
+        onStepFinish: onStep,
+        activeTools: BROWSING_TOOLS,
+        prepareStep: wrapUpWhenOverBudget(false),
+      });
+      console.log(`\n[MaSteel] Research done — writing the report with the synthesis model`);
+      result = await synthesisAgent.generate(
+        [
+          ...input,
+          ...(research.response.messages ?? []),
+          { role: "user", content: "Research is complete. Call write-report now with everything gathered above." },
+        ],
+        { maxSteps: 3, onStepFinish: logStep },
+      );
+    }
 
     // Final text response (if any)
     if (result.text) {
       console.log(`\n[Agent] ${result.text}`);
     }
 
-    console.log("\n[MaSteel] Done. Check report.md in the current directory.");
+    console.log(`\n[MaSteel] Done. Check ${config.output.report} and ${config.output.json}.`);
   } catch (err) {
     console.error("\n[MaSteel] Error:", err);
-    process.exit(1);
+    emitRunEvent("error", { message: err instanceof Error ? err.message : String(err) });
+    // exitCode rather than exit(), so the session is still released and usage saved below
+    process.exitCode = 1;
   } finally {
-    await releaseSession();
+    try {
+      await releaseSession();
+    } catch (err) {
+      // Writing the network archive can fail; the usage below is still saved
+      console.error(`[MaSteel] Could not release the browser session: ${err instanceof Error ? err.message : String(err)}`);
+      process.exitCode = 1;
+    }
+    // Printed and saved even when the run failed — that's when the cost matters most
+    saveUsage();
   }
 })();
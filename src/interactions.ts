@@ -0,0 +1,147 @@
+import type { Page } from "playwright";
+import { isSessionError } from "./session";
+
+// Page interactions shared by the tools that click around a live page
+// (explore-navigation, explore-pricing, capture-screenshot, crawl-site).
+
+/** How a link was found: a plain anchor, or one the old `a[href]` scan misses. */
+export type LinkSource = "anchor" | "shadow-dom" | "iframe" | "role=link" | "onclick";
+
+/** The part of the page a link sits in. */
+export type LinkArea = "nav" | "header" | "footer" | "main";
+
+// A frame that went away or can't be read while its links were collected — skipped, not retried
+const FRAME_GONE = /frame (was|has been) detached|execution context was destroyed|cross-origin|blocked a frame/i;
+
+export interface LinkInfo {
+  url: string;
+  text: string;
+  source?: LinkSource;
+  area?: LinkArea;
+}
+
+/**
+ * Attempt to dismiss common cookie/consent banners so they don't block nav interactions.
+ */
+export async function dismissCookieBanners(page: Page): Promise<void> {
+  const selectors = [
+    'button:has-text("Accept")',
+    'button:has-text("Accept All")',
+    'button:has-text("Accept all")',
+    'button:has-text("Got it")',
+    'button:has-text("I agree")',
+    'button:has-text("OK")',
+    '[id*="cookie"] button',
+    '[class*="cookie"] button',
+    '[id*="consent"] button',
+    '[class*="consent"] button',
+  ];
+
+  for (const sel of selectors) {
+    try {
+      const btn = page.locator(sel).first();
+      if (await btn.isVisible({ timeout: 500 })) {
+        await btn.click({ timeout: 1000 });
+        await page.waitForTimeout(500);
+        return; // dismissed one, that's usually enough
+      }
+    } catch {
+      // ignore — banner may not exist
+    }
+  }
+}
+
+/**
+ * Extracts every link from the current page state: anchors, anchors inside open
+ * shadow roots, and elements that navigate from script (`role="link"` or an
+ * onclick handler) when their target is readable from the markup — a data-href
+ * or a `location` / `window.open` / router push call with a literal URL. Links
+ * in same-origin iframes are included; third-party frames (chat widgets, ads)
+ * are not. Runs inside the browser context via frame.evaluate.
+ */
+export async function collectLinks(page: Page, baseUrl: string): Promise<Map<string, LinkInfo>> {
+  const map = new Map<string, LinkInfo>();
+  const pageOrigin = originOf(page.url()) ?? originOf(baseUrl);
+
+  for (const frame of page.frames()) {
+    const isMain = frame === page.mainFrame();
+    if (!isMain && originOf(frame.url()) !== pageOrigin) continue;
+
+    const raw = await frame
+      .evaluate(() => {
+        const NAVIGATION_CALL =
+          /(?:location(?:\.href)?\s*=|location\.(?:assign|replace)\(|window\.open\(|(?:router|history)\.push(?:State)?\(|navigate(?:To)?\()\s*(?:(?:null|\{\})\s*,\s*['"][^'"]*['"]\s*,\s*)?['"`]([^'"`]+)['"`]/;
+
+        // closest() stops at a shadow root, so climb through the host elements too
+        const closestAcross = (el: any, selector: string): boolean => {
+          for (let node = el; node; node = node.getRootNode()?.host) {
+            if (node.closest(selector)) return true;
+          }
+          return false;
+        };
+        const areaOf = (el: any) =>
+          closestAcross(el, "nav, [role=navigation], .navbar, .nav")
+            ? "nav"
+            : closestAcross(el, "header, [role=banner]")
+              ? "header"
+              : closestAcross(el, 'footer, [role=contentinfo], [class*="footer"]')
+                ? "footer"
+                : "main";
+        const textOf = (el: any) =>
+          (((el.textContent as string) || "").trim() || el.getAttribute("aria-label") || el.getAttribute("title") || "").trim().replace(/\s+/g, " ");
+
+        const found: { href: string; text: string; source: string; area: string }[] = [];
+        const visit = (root: any, inShadow: boolean) => {
+          for (const el of Array.from(root.querySelectorAll("*")) as any[]) {
+            if (el.tagName === "A" && el.hasAttribute("href")) {
+              found.push({ href: el.getAttribute("href") || "", text: textOf(el), source: inShadow ? "shadow-dom" : "anchor", area: areaOf(el) });
+            } else if (el.getAttribute("role") === "link" || el.hasAttribute("onclick")) {
+              const href =
+                el.getAttribute("data-href") ||
+                el.getAttribute("data-url") ||
+                el.getAttribute("data-link") ||
+                el.getAttribute("href") ||
+                ((el.getAttribute("onclick") as string) || "").match(NAVIGATION_CALL)?.[1];
+              if (href) {
+                found.push({ href, text: textOf(el), source: el.getAttribute("role") === "link" ? "role=link" : "onclick", area: areaOf(el) });
+              }
+            }
+            if (el.shadowRoot) visit(el.shadowRoot, true);
+          }
+        };
+        visit((globalThis as any).document, false);
+        return found;
+      })
+      .catch((err: unknown) => {
+        // Anything else — a lost session above all — goes to withPage(), which retries on a new one
+        if (isSessionError(err) || !FRAME_GONE.test(err instanceof Error ? err.message : String(err))) throw err;
+        return [] as { href: string; text: string; source: string; area: string }[];
+      });
+
+    for (const { href, text, source, area } of raw) {
+      if (href.startsWith("javascript:") || href.startsWith("mailto:") || href.startsWith("tel:") || href === "#") continue;
+      try {
+        const resolved = new URL(href, isMain ? baseUrl : frame.url()).href;
+        if (!map.has(resolved)) {
+          map.set(resolved, {
+            url: resolved,
+            text: text.slice(0, 120),
+            source: (isMain ? source : "iframe") as LinkSource,
+            area: area as LinkArea,
+          });
+        }
+      } catch {
+        // skip malformed hrefs
+      }
+    }
+  }
+  return map;
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
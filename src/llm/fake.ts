@@ -0,0 +1,250 @@
+import fs from "fs";
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider";
+import type { CompetitorProfile, GapAnalysis, Report } from "../report/schema";
+import { isTool } from "../steps";
+
+/**
+ * Scripted stand-in for an LLM, so the whole agent loop runs offline and
+ * deterministically. Each call looks at the conversation so far and returns the
+ * next turn:
+ *   - with FAKE_MODEL_SCRIPT set, turn N of that JSON file
+ *     (`[{ "text"?: string, "toolCalls"?: [{ "tool": "scrape-url", "args": {...} }] }, ...]`)
+ *   - otherwise the built-in script: scrape-url on every URL in the prompt, then
+ *     write-report with a minimal profile per page (or with the profiles of a
+ *     supervisor synthesis prompt's JSON block), then a closing message.
+ *     Structured-output calls (the --pipeline extraction step) get a minimal
+ *     profile for the "Competitor:" line of the prompt — or an empty gap
+ *     analysis when that is the schema asked for — and plain-text calls a
+ *     one-line reply.
+ */
+
+interface ScriptedToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: ScriptedToolCall[];
+}
+
+interface ToolOutcome {
+  toolName: string;
+  input: Record<string, unknown>;
+  output: unknown;
+}
+
+function loadScript(file: string): ScriptedTurn[] {
+  const turns = JSON.parse(fs.readFileSync(file, "utf-8"));
+  if (!Array.isArray(turns)) {
+    throw new Error(`FAKE_MODEL_SCRIPT ${file} must contain a JSON array of turns`);
+  }
+  return turns;
+}
+
+function textOf(content: LanguageModelV2Prompt[number]["content"]): string {
+  if (typeof content === "string") return content;
+  return content.map((part) => (part.type === "text" ? part.text : "")).join("");
+}
+
+/** Pairs every tool call in the prompt with its result, in call order. */
+function toolOutcomes(prompt: LanguageModelV2Prompt): ToolOutcome[] {
+  const calls = new Map<string, ToolOutcome>();
+  for (const message of prompt) {
+    if (message.role === "assistant") {
+      for (const part of message.content) {
+        if (part.type === "tool-call") {
+          const input = typeof part.input === "string" ? JSON.parse(part.input) : part.input;
+          calls.set(part.toolCallId, { toolName: part.toolName, input: input as Record<string, unknown>, output: undefined });
+        }
+      }
+    } else if (message.role === "tool") {
+      for (const part of message.content) {
+        const call = calls.get(part.toolCallId);
+        if (call) call.output = "value" in part.output ? part.output.value : undefined;
+      }
+    }
+  }
+  return [...calls.values()];
+}
+
+/** What profileFrom() reads from a scrape-url result or a dossier page. */
+interface ScrapedPage {
+  sourceId: string;
+  content: string;
+  title?: string;
+}
+
+/** Only page content counts — a result without a sourceId carries an error message. */
+function asScrapedPage(result: unknown): ScrapedPage | null {
+  if (typeof result !== "object" || result === null) return null;
+  if (!("sourceId" in result) || typeof result.sourceId !== "string" || !result.sourceId) return null;
+  const content = "content" in result && typeof result.content === "string" ? result.content : "";
+  const title = "title" in result && typeof result.title === "string" ? result.title : undefined;
+  return { sourceId: result.sourceId, content, title };
+}
+
+function profileFrom(url: string, page: ScrapedPage | null, name?: string): CompetitorProfile {
+  const host = new URL(url).hostname.replace(/^www\./, "");
+  const cite = page ? ` [${page.sourceId}]` : "";
+  const firstParagraph = (page?.content ?? "")
+    .split("\n\n")
+    .map((p) => p.replace(/[#*_>`[\]]/g, "").replace(/\s+/g, " ").trim())
+    .find((p) => p.length > 40);
+
+  return {
+    name: name || page?.title || host,
+    url,
+    overview: firstParagraph ? `${firstParagraph.slice(0, 300)}${cite}` : "Unknown",
+    founded: "Unknown",
+    headquarters: "Unknown",
+    notableClients: [],
+    positioning: { summary: "Unknown", targetAudience: "Unknown", valueProposition: "Unknown", quotes: [] },
+    pricing: { publiclyAvailable: false, model: "Unknown", freeTier: "None", notes: "Not researched by the scripted model", tiers: [] },
+    featureGroups: [],
+    integrations: [],
+    certifications: [],
+    techSignals: [],
+    globalCoverage: "Unknown",
+    keyDifferentiator: "Unknown",
+    strengths: [],
+    weaknesses: [],
+    sections: [],
+    comparison: [],
+    recentLaunches: [],
+    screenshots: [],
+  };
+}
+
+/**
+ * Answers a structured-output request with a minimal profile of the prompt's
+ * "Competitor: Name — URL" line, citing the first page given.
+ */
+function builtInProfile(prompt: LanguageModelV2Prompt): string {
+  const request = prompt.filter((m) => m.role === "user").map((m) => textOf(m.content)).join("\n");
+  const competitor = request.match(/^Competitor: (?:(.+?) — )?(https?:\/\/\S+)/m);
+  const page = request.match(/^### .*?\[(S\d+)\].*\n\n([\s\S]*?)(?=\n### |(?![\s\S]))/m);
+  const url = competitor?.[2] ?? "https://example.com";
+  return JSON.stringify(profileFrom(url, page ? { sourceId: page[1], content: page[2] } : null, competitor?.[1]));
+}
+
+const EMPTY_GAP_ANALYSIS: GapAnalysis = { missingFeatures: [], pricing: "Not compared by the scripted model.", messagingOverlap: [] };
+
+/**
+ * The built-in script: one scrape-url per competitor URL, then write-report, then stop.
+ */
+function builtInTurn(prompt: LanguageModelV2Prompt, tools: string[]): ScriptedTurn {
+  const request = prompt.filter((m) => m.role === "user").map((m) => textOf(m.content)).join("\n");
+  // Competitors are the numbered lines of the request ("1. Name — https://…"); indented known-page lines are skipped
+  const names = new Map([...request.matchAll(/^\d+\.\s(?:(.+?) — )?(https?:\/\/[^\s)]+)/gm)].map((m) => [m[2], m[1]] as const));
+  const urls = [...names.keys()];
+  const outcomes = toolOutcomes(prompt);
+  const has = (id: string) => tools.some((t) => isTool(t, { id }));
+
+  if (outcomes.some((o) => isTool(o.toolName, { id: "write-report" }))) {
+    return { text: "Report written." };
+  }
+
+  const scraped = new Map(outcomes.filter((o) => isTool(o.toolName, { id: "scrape-url" })).map((o) => [o.input.url as string, o.output]));
+  const next = urls.find((u) => !scraped.has(u));
+  if (next && has("scrape-url")) {
+    return { text: `Scraping ${next}`, toolCalls: [{ tool: "scrape-url", args: { url: next } }] };
+  }
+
+  if (tools.length === 0) {
+    return { text: "Scripted offline run — no analysis." };
+  }
+  if (!has("write-report")) {
+    return { text: "Research complete." };
+  }
+  // Supervisor synthesis: the profiles arrive ready-made as a JSON block, with our own product's apart when there is one
+  const dossiers = request.match(/```json\n([\s\S]*?)\n```/);
+  const parsed = dossiers ? JSON.parse(dossiers[1]) : null;
+  const competitors: CompetitorProfile[] = parsed
+    ? Array.isArray(parsed) ? parsed : parsed.competitors
+    : urls.map((u) => profileFrom(u, asScrapedPage(scraped.get(u)), names.get(u)));
+  const self: CompetitorProfile | undefined = parsed?.self;
+  const report: Report = {
+    ...(self ? { self, gapAnalysis: EMPTY_GAP_ANALYSIS } : {}),
+    competitors,
+    summary: `Scripted offline run covering ${competitors.length} competitor(s).`,
+  };
+  return { toolCalls: [{ tool: "write-report", args: report }] };
+}
+
+export function createFakeModel(modelId: string = "scripted"): LanguageModelV2 {
+  const script = process.env.FAKE_MODEL_SCRIPT ? loadScript(process.env.FAKE_MODEL_SCRIPT) : null;
+
+  const nextContent = (options: LanguageModelV2CallOptions): LanguageModelV2Content[] => {
+    const tools = (options.tools ?? []).map((t) => t.name);
+    const turnIndex = options.prompt.filter((m) => m.role === "assistant").length;
+    const format = options.responseFormat;
+    const structured = format?.type === "json";
+    const gapAnalysis = format?.type === "json" && format.schema?.properties?.missingFeatures !== undefined;
+    const turn = script
+      ? (script[turnIndex] ?? { text: "Script finished." })
+      : gapAnalysis
+        ? { text: JSON.stringify(EMPTY_GAP_ANALYSIS) }
+        : structured
+          ? { text: builtInProfile(options.prompt) }
+          : builtInTurn(options.prompt, tools);
+
+    const content: LanguageModelV2Content[] = [];
+    if (turn.text) content.push({ type: "text", text: turn.text });
+    (turn.toolCalls ?? []).forEach((call, i) => {
+      // Call by whichever name the agent exposes the tool under
+      const toolName = tools.find((t) => isTool(t, { id: call.tool })) ?? call.tool;
+      content.push({ type: "tool-call", toolCallId: `call-${turnIndex}-${i}`, toolName, input: JSON.stringify(call.args) });
+    });
+    return content;
+  };
+
+  const usageOf = (options: LanguageModelV2CallOptions, content: LanguageModelV2Content[]) => {
+    // Rough 4-chars-per-token estimate so usage reporting has something to show
+    const inputTokens = Math.ceil(JSON.stringify(options.prompt).length / 4);
+    const outputTokens = Math.ceil(JSON.stringify(content).length / 4);
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "fake",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const content = nextContent(options);
+      const finishReason = content.some((c) => c.type === "tool-call") ? "tool-calls" : "stop";
+      return { content, finishReason, usage: usageOf(options, content), warnings: [] };
+    },
+
+    async doStream(options) {
+      const content = nextContent(options);
+      const parts: LanguageModelV2StreamPart[] = [{ type: "stream-start", warnings: [] }];
+      for (const c of content) {
+        if (c.type === "text") {
+          parts.push({ type: "text-start", id: "text" }, { type: "text-delta", id: "text", delta: c.text }, { type: "text-end", id: "text" });
+        } else if (c.type === "tool-call") {
+          parts.push(c);
+        }
+      }
+      const finishReason = content.some((c) => c.type === "tool-call") ? "tool-calls" : "stop";
+      parts.push({ type: "finish", finishReason, usage: usageOf(options, content) });
+
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import TurndownService from "turndown";
+import { gfm } from "turndown-plugin-gfm";
+import type { Page } from "playwright";
+
+const turndown = new TurndownService({ headingStyle: "atx", bulletListMarker: "-" });
+turndown.use(gfm); // GFM tables plugin — keeps pricing tables readable
+
+export const CHUNK_CHARS = 15000;
+
+export interface OutlineEntry {
+  level: number;
+  heading: string;
+  /** Character offset of the heading line in the full markdown */
+  offset: number;
+}
+
+export interface Chunk {
+  content: string;
+  offset: number;
+  /** Offset to pass to read the next chunk, or null at the end of the document */
+  nextOffset: number | null;
+}
+
+/**
+ * Converts rendered page HTML to markdown. Shared so every tool produces the same flavor.
+ */
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html);
+}
+
+/**
+ * Readability-style main-content extraction, run inside the page: prefers
+ * <main>/[role=main] or the largest <article>, then strips navigation, footers,
+ * scripts, cookie banners and other boilerplate from a clone of it.
+ * Falls back to the whole <body> when the candidate is nearly empty.
+ */
+export async function extractMainHtml(page: Page): Promise<string> {
+  return (await page.evaluate(() => {
+    const doc = (globalThis as any).document;
+    const textLength = (el: any) => (((el?.textContent as string) || "").replace(/\s+/g, " ").trim()).length;
+
+    const articles = Array.from(doc.querySelectorAll("article") as any[]).sort((a, b) => textLength(b) - textLength(a));
+    const candidates = [doc.querySelector("main"), doc.querySelector('[role="main"]'), articles[0]].filter(Boolean);
+    const root = candidates.find((el: any) => textLength(el) > 500) ?? doc.body;
+    const isBody = root === doc.body;
+
+    const clone = root.cloneNode(true);
+    const boilerplate = [
+      "script", "style", "noscript", "template", "svg", "iframe", "dialog", "[hidden]",
+      "nav", "aside", '[role="navigation"]', '[role="complementary"]',
+      '[id*="cookie" i]', '[class*="cookie" i]', '[id*="consent" i]', '[class*="consent" i]',
+      '[class*="newsletter" i]', '[class*="skip-link" i]',
+    ];
+    // Site header/footer only when we're working from <body> — inside <main> a <header> is usually the hero
+    if (isBody) boilerplate.push("header", "footer", '[role="banner"]', '[role="contentinfo"]');
+    for (const el of Array.from(clone.querySelectorAll(boilerplate.join(", ")) as any[])) el.remove();
+
+    if (textLength(clone) < 200 && !isBody) {
+      const body = doc.body.cloneNode(true);
+      for (const el of Array.from(body.querySelectorAll("script, style, noscript, template, svg") as any[])) el.remove();
+      return body.innerHTML as string;
+    }
+    return clone.innerHTML as string;
+  })) as string;
+}
+
+/**
+ * Lists the markdown headings with their offsets, so an agent can jump to a section.
+ */
+export function outline(markdown: string): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  let offset = 0;
+  for (const line of markdown.split("\n")) {
+    const m = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (m) {
+      entries.push({ level: m[1].length, heading: m[2], offset });
+    }
+    offset += line.length + 1;
+  }
+  return entries;
+}
+
+/**
+ * Finds the outline entry for a section name — an exact heading first, then
+ * the first heading containing it (case-insensitive, leading #s ignored).
+ */
+export function findSection(headings: OutlineEntry[], section: string): OutlineEntry | null {
+  const wanted = section.toLowerCase().replace(/^#+\s*/, "");
+  return headings.find((h) => h.heading.toLowerCase() === wanted) ?? headings.find((h) => h.heading.toLowerCase().includes(wanted)) ?? null;
+}
+
+/**
+ * Returns the chunk of `markdown` starting at `offset`. The cut is moved back
+ * to the last heading or blank line in the second half of the chunk, so tables
+ * and paragraphs aren't split mid-way when that can be avoided.
+ */
+export function chunkAt(markdown: string, offset: number, size: number = CHUNK_CHARS): Chunk {
+  const start = Math.max(0, Math.min(offset, markdown.length));
+  let end = Math.min(start + size, markdown.length);
+
+  if (end < markdown.length) {
+    const window = markdown.slice(start + Math.floor(size / 2), end);
+    const heading = window.lastIndexOf("\n#");
+    const blank = window.lastIndexOf("\n\n");
+    const cut = heading >= 0 ? heading : blank;
+    if (cut >= 0) {
+      end = start + Math.floor(size / 2) + cut + 1;
+    }
+  }
+
+  return { content: markdown.slice(start, end), offset: start, nextOffset: end < markdown.length ? end : null };
+}
@@ -0,0 +1,97 @@
+import { openai, createOpenAI } from "@ai-sdk/openai";
+import type { MastraModelConfig } from "@mastra/core/llm";
+import { createFakeModel } from "./llm/fake";
+import { meterModel } from "./usage";
+
+/**
+ * Chooses the language model(s) the agent runs on:
+ *   openai            — OpenAI's API (OPENAI_API_KEY)
+ *   openai-compatible — any OpenAI-compatible endpoint at LLM_BASE_URL, e.g. a
+ *                       local Ollama (http://localhost:11434/v1) or vLLM server
+ *   fake              — the scripted offline model in llm/fake.ts
+ *
+ * The browsing loop and the final synthesis (write-report) can use different
+ * models; both default to LLM_MODEL.
+ */
+
+export type ModelRole = "browsing" | "synthesis";
+
+const LLM_PROVIDERS = ["openai", "openai-compatible", "fake"] as const;
+export type LlmProvider = (typeof LLM_PROVIDERS)[number];
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+interface ModelSettings {
+  provider: LlmProvider;
+  baseUrl: string;
+  model: string;
+  browsingModel?: string;
+  synthesisModel?: string;
+}
+
+let settings: ModelSettings = {
+  provider: (process.env.LLM_PROVIDER as LlmProvider) || "openai",
+  baseUrl: process.env.LLM_BASE_URL || DEFAULT_BASE_URL,
+  model: process.env.LLM_MODEL || DEFAULT_MODEL,
+  browsingModel: process.env.BROWSING_MODEL || undefined,
+  synthesisModel: process.env.SYNTHESIS_MODEL || undefined,
+};
+
+// Built lazily: the compatible client depends on settings that CLI flags can still change.
+let compatible: ReturnType<typeof createOpenAI> | null = null;
+
+export function configureModels(options: Partial<ModelSettings>) {
+  const next = { ...settings };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) (next as Record<string, unknown>)[key] = value;
+  }
+  if (!LLM_PROVIDERS.includes(next.provider)) {
+    throw new Error(`Unknown LLM provider "${next.provider}" — expected one of: ${LLM_PROVIDERS.join(", ")}`);
+  }
+  settings = next;
+  compatible = null;
+}
+
+export function getProviderName(): LlmProvider {
+  return settings.provider;
+}
+
+export function getModelId(role: ModelRole): string {
+  return (role === "browsing" ? settings.browsingModel : settings.synthesisModel) ?? settings.model;
+}
+
+/** True when write-report should run on a different model than the browsing loop. */
+export function hasSeparateSynthesisModel(): boolean {
+  return getModelId("synthesis") !== getModelId("browsing");
+}
+
+/** The model for a role, metered so its tokens count toward the run's usage and budget. */
+export function getModel(role: ModelRole): MastraModelConfig {
+  const id = getModelId(role);
+  switch (settings.provider) {
+    case "fake":
+      // Metered under its own name so scripted runs never pick up a real model's price
+      return meterModel(createFakeModel(id), `fake:${id}`);
+    case "openai-compatible":
+      if (!compatible) {
+        compatible = createOpenAI({
+          name: "openai-compatible",
+          baseURL: settings.baseUrl,
+          // Local servers usually ignore the key, but the client insists on one
+          apiKey: process.env.LLM_API_KEY || "not-needed",
+        });
+      }
+      return meterModel(compatible.chat(id), id);
+    default:
+      return meterModel(openai.chat(id), id);
+  }
+}
+
+export function describeModels(): string {
+  const where = settings.provider === "openai-compatible" ? ` at ${settings.baseUrl}` : "";
+  const models = hasSeparateSynthesisModel()
+    ? `browsing ${getModelId("browsing")}, synthesis ${getModelId("synthesis")}`
+    : getModelId("browsing");
+  return `${settings.provider}${where} — ${models}`;
+}
@@ -0,0 +1,269 @@
+import { createStep, createWorkflow } from "@mastra/core/workflows";
+import type { ToolExecutionContext, ValidationError } from "@mastra/core/tools";
+import { z } from "zod";
+import { scrapeUrl } from "./tools/scrapeUrl";
+import { searchForPage } from "./tools/searchForPage";
+import { discoverSitemap } from "./tools/discoverSitemap";
+import { exploreNavigation } from "./tools/exploreNavigation";
+import { explorePricing } from "./tools/explorePricing";
+import { inspectSite } from "./tools/inspectSite";
+import { crawlSite } from "./tools/crawlSite";
+import { writeReport } from "./tools/writeReport";
+import { CompetitorConfigSchema, getConfig } from "./config";
+import type { CompetitorConfig, Topic } from "./config";
+import { CompetitorProfileSchema, GapAnalysisSchema } from "./report/schema";
+import type { CompetitorProfile, GapAnalysis } from "./report/schema";
+import { extractionAgent, generateObject, GAP_ANALYSIS_GUIDE, selfLabel } from "./agent";
+import { DossierSchema, extractProfile, formatCrawlEntries, formatPricingVariants } from "./dossier";
+import type { Dossier, Page } from "./dossier";
+import { overBudget } from "./usage";
+import { getSource } from "./sources";
+import { isValidationError } from "./steps";
+
+/**
+ * --pipeline mode: the crawl order is fixed in code instead of left to the LLM.
+ * Per competitor it scrapes and inspects the homepage, then for each configured
+ * topic uses a known subpage, or searches (search-for-page on the homepage, then
+ * on the pages already found → discover-sitemap → explore-navigation) and reads
+ * the best match. The model is only called to extract each profile from the
+ * gathered pages and to write the summary, so every competitor is covered every run.
+ * With a `self` entry in the config our own product goes through the same
+ * steps first, and a gap-analysis step compares the competitors against it.
+ */
+
+/**
+ * Calls a tool's execute directly, outside an agent. Tools return result objects
+ * rather than throwing, but Mastra's own input validation can still hand back an error.
+ */
+export async function callTool<TIn, TOut>(
+  tool: { id: string; execute?: (input: TIn, context: ToolExecutionContext) => Promise<TOut | ValidationError> },
+  input: TIn,
+): Promise<TOut> {
+  const result = await tool.execute!(input, {});
+  if (isValidationError(result)) {
+    throw new Error(`${tool.id}: ${result.message}`);
+  }
+  return result;
+}
+
+/**
+ * Picks the best candidate for a keyword: same site, keyword as a whole path
+ * segment over a partial match, then the shallowest path.
+ */
+function pickBest(urls: string[], keyword: string, baseUrl: string): string | null {
+  const host = new URL(baseUrl).hostname.replace(/^www\./, "");
+  const kw = keyword.toLowerCase();
+  const scored = urls
+    .map((url) => {
+      let u: URL;
+      try {
+        u = new URL(url);
+      } catch {
+        return null;
+      }
+      const segments = u.pathname.toLowerCase().split("/").filter(Boolean);
+      const sameSite = u.hostname.replace(/^www\./, "") === host;
+      const exact = segments.includes(kw);
+      return { url, score: (sameSite ? 100 : 0) + (exact ? 10 : 0) - segments.length };
+    })
+    .filter((s): s is { url: string; score: number } => s !== null)
+    .sort((a, b) => b.score - a.score);
+  return scored[0]?.url ?? null;
+}
+
+async function findTopicPage(
+  competitor: CompetitorConfig,
+  topic: Topic,
+  navLinks: () => Promise<{ url: string; text: string }[]>,
+  hubs: string[],
+): Promise<string | null> {
+  const known = competitor.subpages[topic.name];
+  if (known) return known;
+
+  // One search covers the topic's keywords, synonyms and translations, best match first
+  const search = await callTool(searchForPage, { baseUrl: competitor.url, topic: topic.name });
+  if (search.matches[0]?.score > 0) return search.matches[0].url;
+  // Pages found for earlier topics often link deeper, e.g. integrations from the product page
+  if (hubs.length > 0) {
+    const deeper = await callTool(searchForPage, { baseUrl: competitor.url, topic: topic.name, seedUrls: hubs.slice(0, 3) });
+    if (deeper.matches[0]?.score > 0) return deeper.matches[0].url;
+  }
+  for (const keyword of topic.keywords) {
+    const sitemap = await callTool(discoverSitemap, { baseUrl: competitor.url, keyword });
+    const best = pickBest(sitemap.matches.map((m) => m.url), keyword, competitor.url);
+    if (best) return best;
+  }
+  // Last resort — the hover/click crawl, run at most once per competitor
+  const links = await navLinks();
+  for (const keyword of topic.keywords) {
+    const kw = keyword.toLowerCase();
+    const matching = links.filter((l) => l.url.toLowerCase().includes(kw) || l.text.toLowerCase().includes(kw));
+    const best = pickBest(matching.map((l) => l.url), keyword, competitor.url);
+    if (best) return best;
+  }
+  return null;
+}
+
+async function readPage(topic: string, url: string, tool: Topic["tool"]): Promise<Page | string> {
+  if (tool === "explore-pricing") {
+    const pricing = await callTool(explorePricing, { url });
+    if (pricing.variants.length === 0) {
+      return `${topic}: could not read ${url} (${pricing.errors.join("; ") || "no content"})`;
+    }
+    return { topic, url, content: formatPricingVariants(pricing.variants) };
+  }
+
+  if (tool === "crawl-site") {
+    const crawl = await callTool(crawlSite, { startUrl: url });
+    if (crawl.entries.length === 0) {
+      return `${topic}: no dated entries found from ${url} (${crawl.errors.join("; ") || crawl.stoppedBecause})`;
+    }
+    return { topic, url, content: formatCrawlEntries(crawl.entries, crawl.recentSince) };
+  }
+
+  const page = await callTool(scrapeUrl, { url });
+  if (!page.sourceId) {
+    return `${topic}: could not read ${url} (${page.content})`;
+  }
+  // The tool returns the first chunk only; extraction gets the whole page
+  return { topic, url, sourceId: page.sourceId, content: getSource(page.sourceId)?.content ?? page.content };
+}
+
+/** The homepage's tech-stack and compliance signals, as a citable page. */
+async function inspectHomepage(url: string): Promise<Page | string> {
+  const inspection = await callTool(inspectSite, { url });
+  if (!inspection.sourceId) {
+    return `site inspection: could not inspect ${url} (${inspection.error})`;
+  }
+  return { topic: "site inspection", url, sourceId: inspection.sourceId, content: getSource(inspection.sourceId)?.content ?? "" };
+}
+
+const researchCompetitor = createStep({
+  id: "research-competitor",
+  description: "Crawls one competitor: homepage, then one page per topic",
+  inputSchema: CompetitorConfigSchema,
+  outputSchema: DossierSchema,
+  execute: async ({ inputData: competitor }) => {
+    const { topics } = getConfig();
+    const pages: Page[] = [];
+    const notes: string[] = [];
+    console.log(`\n[Pipeline] Researching ${competitor.name ?? competitor.url}`);
+
+    const add = (result: Page | string) => {
+      if (typeof result === "string") notes.push(result);
+      else pages.push(result);
+    };
+
+    let nav: Promise<{ url: string; text: string }[]> | null = null;
+    const navLinks = () => {
+      nav ??= callTool(exploreNavigation, { url: competitor.url }).then((r) => r.sections.flatMap((s) => s.links));
+      return nav;
+    };
+
+    add(await readPage("homepage", competitor.url, "scrape-url"));
+    add(await inspectHomepage(competitor.url));
+    for (const topic of topics) {
+      // Over budget: keep what we have and let extraction and the report run on it
+      const budget = overBudget();
+      if (budget) {
+        notes.push(`${topic.name}: not researched — ${budget}`);
+        continue;
+      }
+      const hubs = pages.map((p) => p.url).filter((u) => u !== competitor.url);
+      const url = await findTopicPage(competitor, topic, navLinks, [...new Set(hubs)]);
+      if (!url) {
+        notes.push(`${topic.name}: no page found`);
+        console.log(`  [pipeline] ${topic.name}: no page found`);
+        continue;
+      }
+      console.log(`  [pipeline] ${topic.name} → ${url}`);
+      if (pages.some((p) => p.url === url)) continue;
+      add(await readPage(topic.name, url, topic.tool));
+    }
+
+    return { competitor, pages, notes };
+  },
+});
+
+const extractProfileStep = createStep({
+  id: "extract-profile",
+  description: "Turns one competitor's gathered pages into a structured profile (LLM)",
+  inputSchema: DossierSchema,
+  outputSchema: CompetitorProfileSchema,
+  execute: async ({ inputData: dossier }) => {
+    const { competitor, pages } = dossier as Dossier;
+    console.log(`\n[Pipeline] Extracting profile for ${competitor.name ?? competitor.url} from ${pages.length} page(s)`);
+    return extractProfile(dossier as Dossier);
+  },
+});
+
+/**
+ * Asks the model for the gap analysis: what the competitors have that we lack,
+ * where our pricing sits and where our messaging overlaps with theirs.
+ */
+async function analyzeGaps(self: CompetitorProfile, competitors: CompetitorProfile[]): Promise<GapAnalysis> {
+  return generateObject(
+    GapAnalysisSchema,
+    `Compare our product (self) with the competitors below and write the gap analysis. Use only what the profiles say, and keep ` +
+      `the [S#] citations of any quotes and figures you repeat.\n\n${GAP_ANALYSIS_GUIDE}\n\n` +
+      JSON.stringify({ self, competitors }, null, 2),
+  );
+}
+
+const writeFinalReport = createStep({
+  id: "write-report",
+  description: "Writes the gap analysis and summary (LLM) and saves the report",
+  inputSchema: z.array(CompetitorProfileSchema),
+  outputSchema: z.object({ filePath: z.string().optional(), success: z.boolean(), errors: z.array(z.string()).optional() }),
+  execute: async ({ inputData: profiles }) => {
+    // Our own product was researched first, so its profile leads the list
+    const ours = selfLabel(getConfig());
+    const [self, competitors] = ours ? [profiles[0], profiles.slice(1)] : [undefined, profiles];
+
+    let gapAnalysis: GapAnalysis | undefined;
+    if (self) {
+      console.log(`\n[Pipeline] Comparing ${competitors.length} competitor(s) against ${ours}`);
+      gapAnalysis = await analyzeGaps(self, competitors);
+    }
+
+    console.log(`\n[Pipeline] Writing summary for ${competitors.length} competitor(s)`);
+    const summary = await extractionAgent.generate(
+      (self
+        ? "Write the report summary as recommendations for our team, not a neutral summary: 5-8 sentences on where our product (self) " +
+          "stands against each competitor, which gaps to close first, what to change in our pricing, and how to sharpen our messaging " +
+          "where it overlaps. Keep the [S#] citations of any figures you repeat. Reply with the summary only.\n\n" +
+          JSON.stringify({ self, competitors, gapAnalysis }, null, 2)
+        : "Write the report summary: 5-8 sentences on who stands out and why, key gaps and opportunities, which competitor is " +
+          "strongest in which area, and actionable takeaways. Keep the [S#] citations of any figures you repeat. Reply with the summary only.\n\n" +
+          JSON.stringify(competitors, null, 2)),
+    );
+
+    const result = await callTool(writeReport, { ...(self ? { self, gapAnalysis } : {}), competitors, summary: summary.text.trim() });
+    return { filePath: "filePath" in result ? result.filePath : undefined, success: result.success, errors: "errors" in result ? result.errors : undefined };
+  },
+});
+
+export const researchPipeline = createWorkflow({
+  id: "masteel-research-pipeline",
+  inputSchema: z.array(CompetitorConfigSchema),
+  outputSchema: writeFinalReport.outputSchema,
+})
+  .foreach(researchCompetitor)
+  .foreach(extractProfileStep)
+  .then(writeFinalReport)
+  .commit();
+
+/**
+ * Runs the pipeline over the competitors — after our own product, when the
+ * config has one — and returns the write-report result.
+ */
+export async function runPipeline(competitors: CompetitorConfig[]) {
+  const { self } = getConfig();
+  const run = await researchPipeline.createRun();
+  const result = await run.start({ inputData: self ? [self, ...competitors] : competitors });
+  if (result.status !== "success") {
+    const reason = result.status === "failed" ? result.error : result.status;
+    throw new Error(`Pipeline ${result.status}: ${reason instanceof Error ? reason.message : String(reason)}`);
+  }
+  return result.result;
+}
@@ -0,0 +1,260 @@
+import { appendRunFile } from "./runs";
+import { archivedFetch } from "./archive";
+import { ensureAuth } from "./auth";
+
+/**
+ * Shared politeness layer for every tool that visits a site:
+ *   - robots.txt is fetched once per origin and its Allow/Disallow rules are
+ *     honored for CRAWLER_USER_AGENT (RFC 9309 matching: longest rule wins,
+ *     Allow wins ties, `*` and `$` wildcards supported); while it can't be
+ *     fetched the site is skipped and the fetch retried later
+ *   - per-domain concurrency is capped at DOMAIN_CONCURRENCY
+ *   - requests to one domain start at least DOMAIN_DELAY_MS apart, or the
+ *     site's Crawl-delay if that is longer
+ *   - domains with an auth profile are logged in to before the first visit
+ *     (see auth.ts)
+ * Every decision is appended to the run's crawl-log.jsonl.
+ */
+
+export const USER_AGENT = process.env.CRAWLER_USER_AGENT || "MaSteel";
+const DOMAIN_CONCURRENCY = Number(process.env.DOMAIN_CONCURRENCY) || 2;
+const DEFAULT_DOMAIN_DELAY_MS = 1000;
+const DOMAIN_DELAY_MS = delayFromEnv();
+const ROBOTS_RETRY_MS = 60000;
+
+/**
+ * DOMAIN_DELAY_MS, or the default when it is unset. 0 turns the delay off;
+ * anything but a number ≥ 0 would turn it off silently (NaN), so it is
+ * reported and the default used instead.
+ */
+function delayFromEnv(): number {
+  const raw = process.env.DOMAIN_DELAY_MS;
+  if (!raw) return DEFAULT_DOMAIN_DELAY_MS;
+  const ms = Number(raw);
+  if (!Number.isFinite(ms) || ms < 0) {
+    console.warn(`[MaSteel] Invalid DOMAIN_DELAY_MS "${raw}" — expected milliseconds; using ${DEFAULT_DOMAIN_DELAY_MS}`);
+    return DEFAULT_DOMAIN_DELAY_MS;
+  }
+  return ms;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface Robots {
+  rules: RobotsRule[];
+  /** Seconds, from the Crawl-delay line of the matching group */
+  crawlDelay: number | null;
+  sitemaps: string[];
+  /** Set while robots.txt is temporarily unavailable (network error or 5xx) and the site is treated as fully disallowed */
+  unreachable?: string;
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+interface DomainState {
+  active: number;
+  waiters: (() => void)[];
+  nextStart: number;
+}
+
+const robotsCache = new Map<string, { robots: Promise<Robots>; retryAt: number }>();
+const domains = new Map<string, DomainState>();
+
+/**
+ * The product token of a user agent — "masteel" for "MaSteel/1.2 (+https://…)".
+ */
+function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\/\s]/)[0].toLowerCase();
+}
+
+/**
+ * How specifically a User-agent line names our product token: its length when
+ * it is the token itself or a prefix of it ending at a "-" (so "masteel" covers
+ * "masteel-news" like "googlebot" covers "googlebot-news"), otherwise 0.
+ */
+function agentMatch(agent: string, token: string): number {
+  const name = productToken(agent);
+  if (name === "*" || !name) return 0;
+  return name === token || token.startsWith(`${name}-`) ? name.length : 0;
+}
+
+/**
+ * Parses robots.txt into the rule groups for our user agent: the groups naming
+ * its product token most specifically, or `*` if no group names it.
+ */
+export function parseRobots(text: string, userAgent: string = USER_AGENT): Robots {
+  const token = productToken(userAgent);
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }[] = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const m = line.match(/^([a-zA-Z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const field = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (field === "sitemap") {
+      sitemaps.push(value);
+    } else if (current && (field === "allow" || field === "disallow")) {
+      // An empty Disallow means "allow everything" — it adds no rule
+      if (value) current.rules.push({ allow: field === "allow", path: value });
+    } else if (current && field === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay)) current.crawlDelay = delay;
+    }
+  }
+
+  const specificity = (g: (typeof groups)[number]) => Math.max(0, ...g.agents.map((a) => agentMatch(a, token)));
+  const best = Math.max(0, ...groups.map(specificity));
+  const matched = best > 0 ? groups.filter((g) => specificity(g) === best) : groups.filter((g) => g.agents.includes("*"));
+  return {
+    rules: matched.flatMap((g) => g.rules),
+    crawlDelay: matched.reduce<number | null>((d, g) => (g.crawlDelay !== null ? Math.max(d ?? 0, g.crawlDelay) : d), null),
+    sitemaps,
+  };
+}
+
+function ruleMatches(rulePath: string, path: string): boolean {
+  const anchored = rulePath.endsWith("$");
+  const pattern = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}${anchored ? "$" : ""}`).test(path);
+}
+
+async function fetchRobots(origin: string): Promise<Robots> {
+  const unavailable = (reason: string): Robots => ({ rules: [], crawlDelay: null, sitemaps: [], unreachable: reason });
+  try {
+    const res = await archivedFetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+      signal: AbortSignal.timeout(15000),
+    });
+    if (res.status >= 500) {
+      return unavailable(`robots.txt returned HTTP ${res.status}`);
+    }
+    if (!res.ok) {
+      return { rules: [], crawlDelay: null, sitemaps: [] };
+    }
+    return parseRobots(await res.text());
+  } catch (err) {
+    return unavailable(`robots.txt unreachable: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Fetches and parses robots.txt for an origin, once per run. Per RFC 9309 a 4xx
+ * means "no restrictions", while a 5xx or network failure means robots.txt is
+ * temporarily unavailable: everything is disallowed for now, and the first
+ * visit after ROBOTS_RETRY_MS fetches it again.
+ */
+export function getRobots(origin: string): Promise<Robots> {
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() < cached.retryAt) return cached.robots;
+
+  const entry = { robots: fetchRobots(origin), retryAt: Infinity };
+  robotsCache.set(origin, entry);
+  void entry.robots.then((robots) => {
+    if (robots.unreachable) entry.retryAt = Date.now() + ROBOTS_RETRY_MS;
+  });
+  return entry.robots;
+}
+
+/**
+ * Decides whether CRAWLER_USER_AGENT may visit `url` according to the site's robots.txt.
+ */
+export async function checkRobots(url: string): Promise<RobotsDecision> {
+  const u = new URL(url);
+  const robots = await getRobots(u.origin);
+
+  let decision: RobotsDecision;
+  if (robots.unreachable) {
+    decision = { allowed: false, reason: `Blocked: ${robots.unreachable}, so the site is treated as disallowed for now — try again later` };
+  } else {
+    const path = u.pathname + u.search;
+    let best: RobotsRule | null = null;
+    for (const rule of robots.rules) {
+      if (!ruleMatches(rule.path, path)) continue;
+      if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+        best = rule;
+      }
+    }
+    decision =
+      best && !best.allow
+        ? { allowed: false, reason: `Blocked by robots.txt (Disallow: ${best.path} for user agent "${USER_AGENT}")` }
+        : { allowed: true, reason: best ? `Allowed by robots.txt (Allow: ${best.path})` : "Allowed by robots.txt" };
+  }
+
+  if (!decision.allowed) {
+    console.log(`  [politeness] ${decision.reason} — skipping ${url}`);
+    logCrawl({ url, event: "blocked", reason: decision.reason });
+  }
+  return decision;
+}
+
+function logCrawl(entry: Record<string, unknown>) {
+  appendRunFile("crawl-log.jsonl", JSON.stringify({ at: new Date().toISOString(), ...entry }) + "\n");
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `fn` (a visit to `url`) inside its domain's politeness limits: waits for
+ * a free concurrency slot, then for the domain's minimum spacing between requests.
+ * Throws "Auth failed for …" when the domain's login doesn't work.
+ */
+export async function politely<T>(url: string, fn: () => Promise<T>): Promise<T> {
+  await ensureAuth(url);
+  const u = new URL(url);
+  let d = domains.get(u.hostname);
+  if (!d) {
+    d = { active: 0, waiters: [], nextStart: 0 };
+    domains.set(u.hostname, d);
+  }
+
+  while (d.active >= DOMAIN_CONCURRENCY) {
+    await new Promise<void>((resolve) => d!.waiters.push(resolve));
+  }
+  d.active++;
+
+  try {
+    const robots = await getRobots(u.origin);
+    const spacing = Math.max(DOMAIN_DELAY_MS, (robots.crawlDelay ?? 0) * 1000);
+    // Reserve our start time synchronously so parallel callers queue up behind us
+    const start = Math.max(Date.now(), d.nextStart);
+    d.nextStart = start + spacing;
+    if (start > Date.now()) {
+      await sleep(start - Date.now());
+    }
+
+    logCrawl({ url, event: "visit", userAgent: USER_AGENT, spacingMs: spacing });
+    return await fn();
+  } finally {
+    d.active--;
+    d.waiters.shift()?.();
+  }
+}
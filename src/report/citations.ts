@@ -0,0 +1,148 @@
+import { getSource } from "../sources";
+
+// A citation marker such as [S3] or a group like [S1][S4] / [S1, S4].
+const CITATION_RE = /\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+const QUOTE_RE = /["“]([^"“”]{12,})["”]/g;
+// Digits with optional thousands separators / decimals: 2010, 1,000, 2.9, $1.4
+const NUMBER_RE = /\d+(?:[.,]\d+)*/g;
+
+export interface UnverifiedClaim {
+  /** Dotted path of the report field, e.g. "competitors.0.pricing.tiers.1.price" */
+  field: string;
+  claim: string;
+  reason: string;
+}
+
+/**
+ * Lowercases, unifies quote characters and collapses whitespace so quotes match
+ * regardless of how turndown or the model formatted them.
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Removes thousands separators so "1,000" in a claim matches "1000" on the page and vice versa.
+ */
+function normalizeNumber(num: string): string {
+  return num.replace(/,(?=\d{3}\b)/g, "");
+}
+
+function containsNumber(content: string, num: string): boolean {
+  const escaped = num.replace(/\./g, "\\.");
+  return new RegExp(`(?<![\\d.])${escaped}(?![\\d]|\\.\\d)`).test(content);
+}
+
+/**
+ * Splits a text into claims. A citation covers the text before it back to the
+ * previous citation (footnote style); text after the last citation is uncited.
+ */
+function splitClaims(text: string): { text: string; ids: string[] }[] {
+  const claims: { text: string; ids: string[] }[] = [];
+  let last = 0;
+  let pending: { text: string; ids: string[] } | null = null;
+
+  for (const m of text.matchAll(CITATION_RE)) {
+    const between = text.slice(last, m.index);
+    const ids = m[1].split(",").map((s) => s.trim());
+    // Adjacent markers ([S1][S2]) cite the same claim
+    if (pending && between.trim() === "") {
+      pending.ids.push(...ids);
+    } else {
+      pending = { text: between, ids };
+      claims.push(pending);
+    }
+    last = m.index! + m[0].length;
+  }
+
+  const rest = text.slice(last);
+  if (rest.trim()) {
+    claims.push({ text: rest, ids: [] });
+  }
+  return claims;
+}
+
+/**
+ * Yields every string in the report together with its field path.
+ */
+function* walkStrings(value: unknown, path: string): Generator<[string, string]> {
+  if (typeof value === "string") {
+    yield [path, value];
+  } else if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) yield* walkStrings(value[i], `${path}.${i}`);
+  } else if (value && typeof value === "object") {
+    for (const [k, v] of Object.entries(value)) yield* walkStrings(v, path ? `${path}.${k}` : k);
+  }
+}
+
+/**
+ * Checks every quoted passage and numeric figure in the report against the
+ * content of the sources it cites. Single-digit numbers are skipped — they are
+ * almost always counts ("3 plans") rather than facts taken from a page.
+ */
+export function verifyCitations(report: unknown): UnverifiedClaim[] {
+  const issues: UnverifiedClaim[] = [];
+
+  for (const [field, value] of walkStrings(report, "")) {
+    // URLs carry no claims and are full of digits
+    if (/^https?:\/\//.test(value)) continue;
+    // Screenshot paths and captions describe an image, not a page; launch dates are normalized to YYYY-MM-DD
+    if (/\.screenshots\.\d+\.|\.recentLaunches\.\d+\.date$/.test(field)) continue;
+
+    for (const { text, ids } of splitClaims(value)) {
+      // Items of positioning.quotes are quotes in their own right, marks or not
+      const quotes = /\.quotes\.\d+$/.test(field)
+        ? [text.trim().replace(/^["“]|["”]$/g, "")]
+        : Array.from(text.matchAll(QUOTE_RE), (m) => m[1].trim());
+      const numbers = Array.from(text.replace(QUOTE_RE, "").matchAll(NUMBER_RE), (m) => normalizeNumber(m[0])).filter(
+        (n) => n.length > 1,
+      );
+      if (quotes.length === 0 && numbers.length === 0) continue;
+
+      const claim = text.trim().replace(/^[.,;:]\s*/, "");
+      if (ids.length === 0) {
+        issues.push({ field, claim, reason: "quote or figure has no citation" });
+        continue;
+      }
+
+      const known = ids.map((id) => getSource(id)).filter((s) => s !== undefined);
+      const unknown = ids.filter((id) => !getSource(id));
+      if (unknown.length > 0) {
+        issues.push({ field, claim, reason: `unknown source ${unknown.join(", ")}` });
+        if (known.length === 0) continue;
+      }
+
+      const corpus = known.map((s) => normalize(s.content)).join("\n");
+      const corpusNumbers = normalizeNumber(corpus);
+      for (const q of quotes) {
+        if (!corpus.includes(normalize(q))) {
+          issues.push({ field, claim, reason: `quote not found in ${ids.join(", ")}: "${q}"` });
+        }
+      }
+      for (const n of numbers) {
+        if (!containsNumber(corpusNumbers, n)) {
+          issues.push({ field, claim, reason: `figure ${n} not found in ${ids.join(", ")}` });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Returns the distinct source IDs cited anywhere in the report, in first-use order.
+ */
+export function citedSourceIds(report: unknown): string[] {
+  const ids = new Set<string>();
+  for (const [, value] of walkStrings(report, "")) {
+    for (const m of value.matchAll(CITATION_RE)) {
+      for (const id of m[1].split(",")) ids.add(id.trim());
+    }
+  }
+  return Array.from(ids);
+}
@@ -0,0 +1,274 @@
+import { RECENT_LAUNCH_DAYS } from "./schema";
+import type { CompetitorProfile, GapAnalysis, PricingTier, Report } from "./schema";
+import type { Source } from "../sources";
+import type { UnverifiedClaim } from "./citations";
+import { getConfig } from "../config";
+import type { BuiltinRowField, ComparisonRow } from "../config";
+
+export interface RenderOptions {
+  /** Report heading; defaults to the configured report title. */
+  title?: string;
+  /** Comparison table rows; defaults to the configured rows. */
+  comparisonRows?: ComparisonRow[];
+  /** Sources cited in the report, listed as footnotes. */
+  sources?: Source[];
+  /** Claims that failed citation checks, listed so readers know what to double-check. */
+  unverified?: UnverifiedClaim[];
+  /** Turns a screenshot's run-relative asset path into the link written into the report; defaults to the path as is. */
+  assetPath?: (asset: string) => string;
+}
+
+/**
+ * Escapes a value for use inside a markdown table cell.
+ */
+function cell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ").trim() || "—";
+}
+
+function bullets(items: string[], empty: string): string {
+  return items.length > 0 ? items.map((i) => `- ${i}`).join("\n") : `- ${empty}`;
+}
+
+function renderPricing(c: CompetitorProfile): string {
+  const lines: string[] = [];
+  const { pricing } = c;
+
+  if (!pricing.publiclyAvailable) {
+    lines.push("Pricing is not publicly available.");
+  }
+  lines.push(`**Model:** ${pricing.model}  `);
+  lines.push(`**Free tier / trial:** ${pricing.freeTier}`);
+  if (pricing.notes) {
+    lines.push("", pricing.notes);
+  }
+
+  if (pricing.tiers.length > 0) {
+    lines.push("", "| Plan / Tier | Price | Key Inclusions | Limits / Notes |", "|---|---|---|---|");
+    for (const t of pricing.tiers) {
+      lines.push(`| ${cell(t.plan)} | ${cell(t.price)} | ${cell(t.inclusions.join("; "))} | ${cell(t.limits.join("; "))} |`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function renderFeatures(c: CompetitorProfile): string {
+  if (c.featureGroups.length === 0) {
+    return "No feature details found.";
+  }
+  return c.featureGroups
+    .map((g) => `**${g.category}:**\n` + g.features.map((f) => `- ${f.name} — ${f.description}`).join("\n"))
+    .join("\n\n");
+}
+
+/**
+ * Shown when the competitor has launches, or when the config researches them —
+ * then "none" is a finding too.
+ */
+function renderLaunches(c: CompetitorProfile): string[] {
+  const researched = getConfig().topics.some((t) => t.tool === "crawl-site");
+  if (c.recentLaunches.length === 0 && !researched) return [];
+  const items = c.recentLaunches.map((l) => `- **${l.date}** — [${l.title}](${l.url}): ${l.summary}`);
+  return ["", `### Recent Launches (last ${RECENT_LAUNCH_DAYS} days)`, items.length > 0 ? items.join("\n") : "- None found."];
+}
+
+function renderScreenshots(c: CompetitorProfile, assetPath: (asset: string) => string): string[] {
+  if (c.screenshots.length === 0) return [];
+  const images = c.screenshots.map((s) => `![${s.caption.replace(/[[\]]/g, "")}](${encodeURI(assetPath(s.asset))})\n*${s.caption}*`);
+  return ["", "### Screenshots", images.join("\n\n")];
+}
+
+function renderCompetitor(c: CompetitorProfile, assetPath: (asset: string) => string, ours = false): string {
+  const positioning = [c.positioning.summary, "", `**Target audience:** ${c.positioning.targetAudience}  `, `**Value proposition:** ${c.positioning.valueProposition}`];
+  if (c.positioning.quotes.length > 0) {
+    positioning.push("", ...c.positioning.quotes.map((q) => `> "${q}"`));
+  }
+
+  const techSignals = [...c.techSignals];
+  if (c.certifications.length > 0) {
+    techSignals.unshift(`Certifications: ${c.certifications.join(", ")}`);
+  }
+
+  return [
+    `## [${c.name}](${c.url})${ours ? " — Our Product" : ""}`,
+    "",
+    "### Company Overview",
+    c.overview,
+    "",
+    "### Positioning & Messaging",
+    positioning.join("\n"),
+    "",
+    "### Pricing",
+    renderPricing(c),
+    "",
+    "### Key Features",
+    renderFeatures(c),
+    "",
+    "### Integrations & Ecosystem",
+    bullets(c.integrations, "No integrations found."),
+    "",
+    "### Tech Stack / Infrastructure Signals",
+    bullets(techSignals, "No signals found."),
+    "",
+    "### Strengths",
+    bullets(c.strengths, "None identified."),
+    "",
+    "### Weaknesses / Gaps",
+    bullets(c.weaknesses, "None identified."),
+    ...renderLaunches(c),
+    ...renderScreenshots(c, assetPath),
+    // Industry-specific sections from the config
+    ...c.sections.flatMap((section) => ["", `### ${section.title}`, section.content]),
+  ].join("\n");
+}
+
+const BUILTIN_ROWS: Record<BuiltinRowField, (c: CompetitorProfile) => string> = {
+  foundedHq: (c) => `${c.founded} / ${c.headquarters}`,
+  pricingModel: (c) => c.pricing.model,
+  freeTier: (c) => c.pricing.freeTier,
+  keyDifferentiator: (c) => c.keyDifferentiator,
+  targetAudience: (c) => c.positioning.targetAudience,
+  globalCoverage: (c) => c.globalCoverage,
+  notableClients: (c) => c.notableClients.join(", "),
+};
+
+/**
+ * Builds the "Detailed Comparison" table from the per-competitor fields, so
+ * the table can never disagree with the sections above it. Rows without a
+ * built-in field take the value the agent gave for that row label. Our own
+ * product, when there is one, is the first column.
+ */
+function renderComparison(competitors: CompetitorProfile[], rows: ComparisonRow[], self?: CompetitorProfile): string {
+  const valueOf = (row: ComparisonRow, c: CompetitorProfile) => {
+    if (row.field) return BUILTIN_ROWS[row.field](c);
+    const label = row.label.toLowerCase();
+    return c.comparison.find((entry) => entry.row.trim().toLowerCase() === label)?.value ?? "Unknown";
+  };
+
+  const columns = self ? [self, ...competitors] : competitors;
+  const header = `| Category | ${columns.map((c) => cell(c === self ? `${c.name} (us)` : c.name)).join(" | ")} |`;
+  const divider = `|---|${columns.map(() => "---").join("|")}|`;
+  const body = rows.map((row) => `| ${cell(row.label)} | ${columns.map((c) => cell(valueOf(row, c))).join(" | ")} |`);
+  return [header, divider, ...body].join("\n");
+}
+
+/**
+ * Places one of our tiers among the competitors' tiers with a numeric price in
+ * the same currency and billing period — other tiers can't be compared directly.
+ */
+function pricePosition(tier: PricingTier, competitors: CompetitorProfile[]): { position: string; closest: string } {
+  const ours = tier.amount;
+  if (ours === null) {
+    return { position: "Not comparable — no numeric price", closest: "—" };
+  }
+  const comparable = (t: PricingTier) => t.amount !== null && t.currency === tier.currency && t.billingPeriod === tier.billingPeriod;
+  const amounts = competitors.flatMap((c) => c.pricing.tiers.filter(comparable).map((t) => t.amount!));
+  if (amounts.length === 0) {
+    return { position: `No competitor tiers billed ${tier.billingPeriod} in ${tier.currency ?? "the same currency"}`, closest: "—" };
+  }
+
+  const cheaper = amounts.filter((a) => a < ours).length;
+  const pricier = amounts.filter((a) => a > ours).length;
+  const label = cheaper === 0 && pricier === 0 ? "Same price" : cheaper === 0 ? "Lowest" : pricier === 0 ? "Highest" : "Mid-range";
+  // Each competitor's tier nearest to ours in price
+  const closest = competitors.flatMap((c) => {
+    const peers = c.pricing.tiers.filter(comparable);
+    if (peers.length === 0) return [];
+    const nearest = peers.reduce((a, b) => (Math.abs(b.amount! - ours) < Math.abs(a.amount! - ours) ? b : a));
+    return [`${c.name} ${nearest.plan} (${nearest.price})`];
+  });
+  return { position: `${label} — ${cheaper} cheaper, ${pricier} pricier of ${amounts.length} comparable tiers`, closest: closest.join("; ") };
+}
+
+function renderGapItems(items: { name: string; competitors: string[]; notes: string }[], empty: string): string {
+  return bullets(
+    items.map((i) => `**${i.name}**${i.competitors.length > 0 ? ` (${i.competitors.join(", ")})` : ""} — ${i.notes}`),
+    empty,
+  );
+}
+
+/**
+ * The "Gap Analysis" section: what competitors have that we lack, where each of
+ * our tiers sits against theirs, and where our messaging overlaps with theirs.
+ */
+function renderGapAnalysis(self: CompetitorProfile, competitors: CompetitorProfile[], gaps: GapAnalysis | undefined): string {
+  const lines = [
+    "## Gap Analysis",
+    "",
+    "### Features Competitors Have That We Lack",
+    gaps ? renderGapItems(gaps.missingFeatures.map((f) => ({ ...f, name: f.feature })), "None found.") : "- Not analyzed.",
+    "",
+    "### Pricing Position",
+  ];
+  if (gaps?.pricing) {
+    lines.push(gaps.pricing, "");
+  }
+  if (self.pricing.tiers.length > 0) {
+    lines.push("| Our Tier | Our Price | Position | Closest Competitor Tiers |", "|---|---|---|---|");
+    for (const t of self.pricing.tiers) {
+      const { position, closest } = pricePosition(t, competitors);
+      lines.push(`| ${cell(t.plan)} | ${cell(t.price)} | ${cell(position)} | ${cell(closest)} |`);
+    }
+  } else {
+    lines.push("Our pricing tiers were not found, so they can't be placed against the competitors'.");
+  }
+  lines.push(
+    "",
+    "### Messaging Overlap",
+    gaps ? renderGapItems(gaps.messagingOverlap.map((m) => ({ ...m, name: m.theme })), "None found.") : "- Not analyzed.",
+  );
+  return lines.join("\n");
+}
+
+function renderSources(sources: Source[]): string {
+  return sources.map((s) => `- **[${s.id}]** [${s.title || s.url}](${s.url})`).join("\n");
+}
+
+function renderUnverified(unverified: UnverifiedClaim[]): string {
+  return unverified.map((u) => `- \`${u.field}\` — ${u.reason}`).join("\n");
+}
+
+/**
+ * Renders a validated Report into the markdown report layout.
+ */
+export function renderMarkdown(report: Report, options: RenderOptions = {}): string {
+  const { sources = [], unverified = [], assetPath = (asset: string) => asset } = options;
+  const title = options.title ?? getConfig().report.title;
+  const rows = options.comparisonRows ?? getConfig().report.comparisonRows;
+  const appendix: string[] = [];
+  if (sources.length > 0) {
+    appendix.push("---", "", "## Sources", "", renderSources(sources), "");
+  }
+  if (unverified.length > 0) {
+    appendix.push("---", "", "## Unverified Claims", "", "These quotes and figures could not be found in the pages they cite:", "", renderUnverified(unverified), "");
+  }
+
+  const { self } = report;
+  const profiles = [...(self ? [renderCompetitor(self, assetPath, true)] : []), ...report.competitors.map((c) => renderCompetitor(c, assetPath))];
+  const gapAnalysis = self ? [renderGapAnalysis(self, report.competitors, report.gapAnalysis), "", "---", ""] : [];
+
+  return [
+    `# ${title}`,
+    "",
+    "*Generated by MaSteel*",
+    "",
+    "---",
+    "",
+    profiles.join("\n\n---\n\n"),
+    "",
+    "---",
+    "",
+    "## Detailed Comparison",
+    "",
+    renderComparison(report.competitors, rows, self),
+    "",
+    "---",
+    "",
+    ...gapAnalysis,
+    "## Summary & Recommendations",
+    "",
+    report.summary,
+    "",
+    ...appendix,
+  ].join("\n");
+}
@@ -0,0 +1,121 @@
+import { z } from "zod";
+
+// Mirrors the sections of the report template — render.ts turns a validated
+// Report into report.md, and the same object is written verbatim to report.json.
+
+export const PricingTierSchema = z.object({
+  plan: z.string().describe("Plan or tier name, e.g. 'Starter'"),
+  price: z.string().describe("Price exactly as displayed, e.g. '$29/mo', '2.9% + 30¢', 'Contact sales'"),
+  amount: z.number().nullable().describe("Numeric price if there is one (29 for '$29/mo'), otherwise null"),
+  currency: z.string().nullable().describe("ISO currency code such as 'USD', or null if not applicable"),
+  billingPeriod: z
+    .enum(["monthly", "annual", "one-time", "per-transaction", "usage-based", "custom", "free", "unknown"])
+    .describe("How the price is billed"),
+  inclusions: z.array(z.string()).describe("Key features or quotas included in this tier"),
+  limits: z.array(z.string()).describe("Limits, caveats or notes for this tier"),
+});
+
+export const FeatureGroupSchema = z.object({
+  category: z.string().describe("Feature category, e.g. 'Core Product', 'Developer Tools', 'Security & Compliance'"),
+  features: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string().describe("One sentence on what the feature does"),
+    }),
+  ),
+});
+
+/** How far back the "Recent Launches" section of each competitor looks. */
+export const RECENT_LAUNCH_DAYS = 90;
+
+export const LaunchSchema = z.object({
+  title: z.string().describe("What was launched or announced"),
+  date: z.string().describe("Date of the announcement as YYYY-MM-DD"),
+  summary: z.string().describe("One sentence on what it is, with the [S#] of the page it came from"),
+  url: z.string().describe("Link to the announcement"),
+});
+
+export const ScreenshotSchema = z.object({
+  asset: z.string().describe("The screenshot path exactly as capture-screenshot returned it, e.g. 'assets/screenshots/stripe.com_pricing-desktop-viewport.png'"),
+  caption: z.string().describe("What the screenshot shows, e.g. 'Pricing table (desktop)'"),
+});
+
+export const CompetitorProfileSchema = z.object({
+  name: z.string().describe("Company name"),
+  url: z.string().url().describe("Homepage URL"),
+  overview: z.string().describe("3-5 sentences: what the company does, founding, HQ, scale metrics"),
+  founded: z.string().describe("Founding year, or 'Unknown'"),
+  headquarters: z.string().describe("HQ location, or 'Unknown'"),
+  notableClients: z.array(z.string()),
+  positioning: z.object({
+    summary: z.string().describe("How they position themselves and the language they use"),
+    targetAudience: z.string(),
+    valueProposition: z.string(),
+    quotes: z.array(z.string()).describe("Direct quotes from their homepage or about page"),
+  }),
+  pricing: z.object({
+    publiclyAvailable: z.boolean(),
+    model: z.string().describe("Pricing model in a few words, e.g. 'Per seat, billed monthly'"),
+    freeTier: z.string().describe("Free tier or trial, or 'None'"),
+    notes: z.string().describe("Anything else about pricing — enterprise/custom deals, discounts"),
+    tiers: z.array(PricingTierSchema),
+  }),
+  featureGroups: z.array(FeatureGroupSchema),
+  integrations: z.array(z.string()).describe("Platforms, languages and third-party tools they integrate with"),
+  certifications: z.array(z.string()).describe("Compliance certifications such as PCI DSS, SOC 2, ISO 27001"),
+  techSignals: z.array(z.string()).describe("Uptime, currencies, global coverage, API style and other infrastructure signals"),
+  globalCoverage: z.string().describe("Countries/regions served, or 'Unknown'"),
+  keyDifferentiator: z.string(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  sections: z
+    .array(z.object({ title: z.string(), content: z.string() }))
+    .default([])
+    .describe("One entry per report section listed in the instructions, titled exactly as given"),
+  comparison: z
+    .array(z.object({ row: z.string(), value: z.string() }))
+    .default([])
+    .describe("One entry per comparison-table row listed in the instructions, named exactly as given"),
+  recentLaunches: z
+    .array(LaunchSchema)
+    .default([])
+    .describe(`Product launches and announcements from the last ${RECENT_LAUNCH_DAYS} days, newest first`),
+  screenshots: z.array(ScreenshotSchema).default([]).describe("Screenshots taken with capture-screenshot to show in the report"),
+});
+
+export const GapAnalysisSchema = z.object({
+  missingFeatures: z
+    .array(
+      z.object({
+        feature: z.string().describe("Feature or capability our product lacks"),
+        competitors: z.array(z.string()).describe("Names of the competitors that have it"),
+        notes: z.string().describe("What it does there and why it matters, with the [S#] of the competitor's page"),
+      }),
+    )
+    .describe("Features competitors have that our product lacks, the most widespread first"),
+  pricing: z.string().describe("2-4 sentences on where our pricing sits against the competitors' comparable tiers"),
+  messagingOverlap: z
+    .array(
+      z.object({
+        theme: z.string().describe("Claim or message, e.g. 'set up in minutes'"),
+        competitors: z.array(z.string()).describe("Competitors making the same claim"),
+        notes: z.string().describe("How close their wording is to ours, with quotes and [S#] markers"),
+      }),
+    )
+    .describe("Messages and claims we share with competitors — where our positioning doesn't stand out"),
+});
+
+export const ReportSchema = z.object({
+  self: CompetitorProfileSchema.optional().describe("Our own product's profile — only when the report compares competitors against it"),
+  competitors: z.array(CompetitorProfileSchema).min(1).describe("One profile per researched competitor"),
+  gapAnalysis: GapAnalysisSchema.optional().describe("Only with self: how our product compares, from our point of view"),
+  summary: z.string().describe("5-8 sentences: who stands out and why, gaps and opportunities, actionable takeaways"),
+});
+
+export type PricingTier = z.infer<typeof PricingTierSchema>;
+export type FeatureGroup = z.infer<typeof FeatureGroupSchema>;
+export type Launch = z.infer<typeof LaunchSchema>;
+export type Screenshot = z.infer<typeof ScreenshotSchema>;
+export type CompetitorProfile = z.infer<typeof CompetitorProfileSchema>;
+export type GapAnalysis = z.infer<typeof GapAnalysisSchema>;
+export type Report = z.infer<typeof ReportSchema>;
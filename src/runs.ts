@@ -0,0 +1,161 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type { Source } from "./sources";
+
+/**
+ * Every run gets its own timestamped directory under RUNS_DIR:
+ *
+ *   runs/<runId>/
+ *     pages.json        — manifest of scraped pages (url, title, sourceId, file)
+ *     pages/<file>.md   — markdown snapshot of each scraped page
+ *     report.json/.md   — copies of the final report
+ *     crawl-log.jsonl   — every visit and robots.txt block, for auditing
+ *     assets/           — screenshots taken during the run, embedded in the report
+ *     archive/          — network archive of a --record run (see archive.ts)
+ *     checkpoint/       — what `resume <runId>` needs (see checkpoint.ts)
+ *
+ * Snapshots are what the `diff` command compares between runs.
+ */
+
+export interface PageSnapshotInfo {
+  sourceId: string;
+  url: string;
+  title: string;
+  file: string;
+  scrapedAt: string;
+}
+
+let runsDir = path.resolve(process.cwd(), process.env.RUNS_DIR || "runs");
+
+let currentRunId: string | null = null;
+const pages = new Map<string, PageSnapshotInfo>();
+
+/**
+ * True for a name that can be a run directory: letters, digits, ".", "-" and
+ * "_" only, and not "." or ".." — so an ID never points outside RUNS_DIR.
+ */
+export function isRunId(id: string): boolean {
+  return /^[\w.-]+$/.test(id) && !/^\.+$/.test(id);
+}
+
+/**
+ * Overrides RUNS_DIR, and optionally the ID of the run about to start (the HTTP
+ * server picks IDs for its jobs). Call before the run starts — the run directory
+ * is created on first use.
+ */
+export function configureRuns(options: { dir?: string; id?: string }) {
+  if (options.dir) runsDir = path.resolve(process.cwd(), options.dir);
+  if (options.id) {
+    if (!isRunId(options.id)) {
+      throw new Error(`Invalid run ID "${options.id}" — use letters, digits, ".", "-" and "_" only`);
+    }
+    currentRunId = options.id;
+    fs.mkdirSync(getRunDir(currentRunId), { recursive: true });
+  }
+}
+
+/**
+ * Run IDs are UTC timestamps with filesystem-safe separators, so they sort
+ * chronologically, down to the millisecond plus a random suffix so runs started
+ * together (e.g. by a scheduler) never share a directory.
+ */
+export function newRunId(): string {
+  const suffix = crypto.randomBytes(2).toString("hex");
+  return `${new Date().toISOString().replace(/:/g, "-")}-${suffix}`;
+}
+
+/**
+ * Returns the current run's ID, starting a run on first use.
+ */
+export function getRunId(): string {
+  if (!currentRunId) {
+    currentRunId = newRunId();
+    fs.mkdirSync(getRunDir(currentRunId), { recursive: true });
+  }
+  return currentRunId;
+}
+
+/**
+ * Continues an earlier run instead of starting a new one, keeping its page manifest.
+ */
+export function resumeRun(runId: string, snapshots: PageSnapshotInfo[]) {
+  currentRunId = runId;
+  pages.clear();
+  for (const s of snapshots) pages.set(s.url, s);
+}
+
+export function getRunDir(runId: string = getRunId()): string {
+  return path.join(runsDir, runId);
+}
+
+/**
+ * Writes a file inside the current run directory, creating parent folders. Returns the absolute path.
+ */
+export function writeRunFile(relativePath: string, content: string | Buffer): string {
+  const file = path.join(getRunDir(), relativePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content, typeof content === "string" ? "utf-8" : undefined);
+  return file;
+}
+
+/**
+ * Appends to a file inside the current run directory (used for JSONL logs).
+ */
+export function appendRunFile(relativePath: string, content: string) {
+  const file = path.join(getRunDir(), relativePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, content, "utf-8");
+}
+
+/**
+ * Reads a file from a (possibly earlier) run, or null if it doesn't exist.
+ */
+export function readRunFile(runId: string, relativePath: string): string | null {
+  try {
+    return fs.readFileSync(path.join(getRunDir(runId), relativePath), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run IDs that have at least a page manifest or a report, oldest first.
+ */
+export function listRuns(): string[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(runsDir);
+  } catch {
+    return [];
+  }
+  return entries
+    .filter((id) => ["pages.json", "report.json"].some((f) => fs.existsSync(path.join(runsDir, id, f))))
+    .sort();
+}
+
+/**
+ * True if the current run has a file at `relativePath` (e.g. a screenshot under assets/).
+ */
+export function hasRunFile(relativePath: string): boolean {
+  return fs.existsSync(path.join(getRunDir(), relativePath));
+}
+
+/**
+ * Turns a URL into a readable, filesystem-safe file name.
+ */
+export function slugify(url: string): string {
+  const u = new URL(url);
+  const slug = `${u.hostname}${u.pathname}`.replace(/\/+$/, "").replace(/[^a-zA-Z0-9.-]+/g, "_");
+  return slug.slice(0, 100) || "page";
+}
+
+/**
+ * Saves the markdown of a scraped page into the current run and updates the manifest.
+ */
+export function snapshotPage(source: Source) {
+  const file = `pages/${source.id}-${slugify(source.url)}.md`;
+  writeRunFile(file, source.content);
+  pages.set(source.url, { sourceId: source.id, url: source.url, title: source.title, file, scrapedAt: source.scrapedAt });
+  writeRunFile("pages.json", JSON.stringify(Array.from(pages.values()), null, 2) + "\n");
+}
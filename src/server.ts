@@ -0,0 +1,370 @@
+import "dotenv/config";
+import http from "http";
+import fs from "fs";
+import path from "path";
+import { fork } from "child_process";
+import type { ChildProcess } from "child_process";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { loadConfig, getConfig } from "./config";
+import { configureRuns, getRunDir, isRunId, newRunId, readRunFile } from "./runs";
+import type { RunEvent } from "./events";
+
+/**
+ * Local HTTP API for starting research runs from other tools:
+ *
+ *   POST   /runs             start a run — { urls, mode, ... } → { id }
+ *   GET    /runs             list the server's runs
+ *   GET    /runs/:id         status, plus the report once written (?format=md for the markdown)
+ *   GET    /runs/:id/events  Server-Sent Events: status, live-view, step, tool-call, tool-result
+ *   GET    /runs/:id/assets/…  files the report embeds, such as screenshots
+ *   DELETE /runs/:id         cancel a queued or running run
+ *
+ * Every run is the regular CLI (index.ts) in a child process, so runs never
+ * share a browser session, source IDs or usage counters. Runs wait in a queue
+ * and at most --jobs of them run at once.
+ */
+
+const { values: flags } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    port: { type: "string" },
+    host: { type: "string" },
+    jobs: { type: "string" },
+    config: { type: "string" },
+  },
+  strict: false,
+});
+const stringFlag = (name: string) => (typeof flags[name] === "string" ? (flags[name] as string) : undefined);
+
+const PORT = Number(stringFlag("port") ?? process.env.SERVER_PORT ?? 3000);
+const HOST = stringFlag("host") ?? process.env.SERVER_HOST ?? "127.0.0.1";
+const MAX_JOBS = Number(stringFlag("jobs") ?? process.env.SERVER_JOBS ?? 2);
+// A cancelled run gets this long to release its session before it is killed
+const CANCEL_GRACE_MS = 15000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const RunRequestSchema = z.object({
+  urls: z.array(z.string().url()).default([]).describe("Competitor URLs; left out, the config's competitors are used"),
+  self: z.string().url().optional().describe("Our own site — the report compares the competitors against it"),
+  mode: z.enum(["supervisor", "single-agent", "pipeline"]).default("supervisor"),
+  cache: z.enum(["normal", "refresh", "only"]).default("normal"),
+  record: z.boolean().default(false).describe("Save the run's network traffic for --replay"),
+  replay: z
+    .string()
+    .refine(isRunId, { message: "Not a run ID" })
+    .optional()
+    .describe("Serve pages from this recorded run's archive instead of the network"),
+  browser: z.string().optional(),
+  concurrency: z.number().int().positive().optional(),
+  llmProvider: z.string().optional(),
+  model: z.string().optional(),
+  browsingModel: z.string().optional(),
+  synthesisModel: z.string().optional(),
+  maxCost: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  maxPages: z.number().int().positive().optional(),
+  maxMinutes: z.number().positive().optional(),
+});
+
+type RunRequest = z.infer<typeof RunRequestSchema>;
+type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+interface ServerEvent {
+  id: number;
+  type: RunEvent["type"] | "status";
+  data: Record<string, unknown>;
+  at: string;
+}
+
+interface Job {
+  id: string;
+  request: RunRequest;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  liveViewUrl?: string;
+  events: ServerEvent[];
+  listeners: Set<http.ServerResponse>;
+  child?: ChildProcess;
+  cancelRequested?: boolean;
+}
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+let running = 0;
+
+let configFile: string | undefined;
+try {
+  if (!Number.isInteger(MAX_JOBS) || MAX_JOBS < 1) {
+    throw new Error(`Invalid job limit "${stringFlag("jobs") ?? process.env.SERVER_JOBS}" — expected a positive integer`);
+  }
+  configFile = stringFlag("config");
+  const config = loadConfig(configFile);
+  configureRuns({ dir: config.output.runsDir });
+} catch (err) {
+  console.error(`[Server] ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
+
+/** CLI arguments for the child run — the same flags a person would type. */
+function argsFor(job: Job): string[] {
+  const r = job.request;
+  const args = ["--run-id", job.id, "--output-dir", getRunDir(job.id)];
+  if (configFile) args.push("--config", configFile);
+  if (r.mode !== "supervisor") args.push(`--${r.mode}`);
+  if (r.cache === "refresh") args.push("--refresh");
+  if (r.cache === "only") args.push("--cache-only");
+  if (r.record) args.push("--record");
+  if (r.replay) args.push("--replay", r.replay);
+  const options: [string, string | number | undefined][] = [
+    ["self", r.self],
+    ["browser", r.browser],
+    ["concurrency", r.concurrency],
+    ["llm-provider", r.llmProvider],
+    ["model", r.model],
+    ["browsing-model", r.browsingModel],
+    ["synthesis-model", r.synthesisModel],
+    ["max-cost", r.maxCost],
+    ["max-tokens", r.maxTokens],
+    ["max-pages", r.maxPages],
+    ["max-minutes", r.maxMinutes],
+  ];
+  for (const [flag, value] of options) {
+    if (value !== undefined) args.push(`--${flag}`, String(value));
+  }
+  return [...args, ...r.urls];
+}
+
+function publish(job: Job, type: ServerEvent["type"], data: Record<string, unknown>, at = new Date().toISOString()) {
+  const event: ServerEvent = { id: job.events.length + 1, type, data, at };
+  job.events.push(event);
+  for (const res of job.listeners) writeEvent(res, event);
+  if (type === "status" && isFinished(job)) {
+    for (const res of job.listeners) res.end();
+    job.listeners.clear();
+  }
+}
+
+function setStatus(job: Job, status: JobStatus) {
+  job.status = status;
+  if (status === "running") job.startedAt = new Date().toISOString();
+  if (status !== "queued" && status !== "running") job.finishedAt = new Date().toISOString();
+  console.log(`[Server] Run ${job.id}: ${status}${job.error ? ` — ${job.error}` : ""}`);
+  publish(job, "status", { status, error: job.error });
+}
+
+function isFinished(job: Job): boolean {
+  return job.status === "succeeded" || job.status === "failed" || job.status === "cancelled";
+}
+
+/** Starts queued runs while there are free slots. */
+function pump() {
+  while (running < MAX_JOBS && queue.length > 0) {
+    start(queue.shift()!);
+  }
+}
+
+function start(job: Job) {
+  running++;
+  fs.mkdirSync(getRunDir(job.id), { recursive: true });
+  const log = fs.createWriteStream(path.join(getRunDir(job.id), "output.log"));
+
+  // Inherits this process's execArgv, so the child runs under tsx too
+  const child = fork(path.join(__dirname, "index.ts"), argsFor(job), { stdio: ["ignore", "pipe", "pipe", "ipc"] });
+  job.child = child;
+  child.stdout!.pipe(log, { end: false });
+  child.stderr!.pipe(log, { end: false });
+  setStatus(job, "running");
+
+  child.on("message", (message) => {
+    const event = message as RunEvent;
+    if (event.type === "live-view") job.liveViewUrl = String(event.data.url);
+    if (event.type === "error") job.error = String(event.data.message);
+    publish(job, event.type, event.data, event.at);
+  });
+
+  child.on("exit", (code, signal) => {
+    running--;
+    job.child = undefined;
+    log.end();
+    if (job.cancelRequested) {
+      setStatus(job, "cancelled");
+    } else if (code === 0 && readRunFile(job.id, "report.json") !== null) {
+      setStatus(job, "succeeded");
+    } else {
+      job.error ??= `Run exited with ${signal ?? `code ${code}`} — see runs/${job.id}/output.log`;
+      setStatus(job, "failed");
+    }
+    pump();
+  });
+}
+
+function cancel(job: Job) {
+  job.cancelRequested = true;
+  const queued = queue.indexOf(job);
+  if (queued >= 0) {
+    queue.splice(queued, 1);
+    setStatus(job, "cancelled");
+    return;
+  }
+  const child = job.child;
+  if (!child) return;
+  // The run's SIGTERM handler releases the browser session, then exits
+  child.kill("SIGTERM");
+  const timer = setTimeout(() => child.kill("SIGKILL"), CANCEL_GRACE_MS);
+  child.once("exit", () => clearTimeout(timer));
+}
+
+function summaryOf(job: Job) {
+  const { id, status, createdAt, startedAt, finishedAt, error, liveViewUrl } = job;
+  const position = status === "queued" ? queue.indexOf(job) + 1 : undefined;
+  return { id, status, position, createdAt, startedAt, finishedAt, error, liveViewUrl, urls: job.request.urls, mode: job.request.mode };
+}
+
+function writeEvent(res: http.ServerResponse, event: ServerEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.data, at: event.at })}\n\n`);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2) + "\n");
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+async function createRun(req: http.IncomingMessage, res: http.ServerResponse) {
+  let raw: unknown;
+  try {
+    const body = await readBody(req);
+    raw = body.trim() ? JSON.parse(body) : {};
+  } catch (err) {
+    return sendJson(res, 400, { error: `Invalid JSON body: ${err instanceof Error ? err.message : String(err)}` });
+  }
+  const parsed = RunRequestSchema.safeParse(raw);
+  if (!parsed.success) {
+    return sendJson(res, 400, { error: "Invalid run request", issues: parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`) });
+  }
+  if (parsed.data.urls.length === 0 && getConfig().competitors.length === 0) {
+    return sendJson(res, 400, { error: "No competitors — pass urls, or start the server with a config that lists competitors" });
+  }
+
+  // Timestamp IDs like CLI runs, suffixed when two runs start within the same second
+  let id = newRunId();
+  for (let n = 2; jobs.has(id) || fs.existsSync(getRunDir(id)); n++) id = `${newRunId()}-${n}`;
+
+  const job: Job = { id, request: parsed.data, status: "queued", createdAt: new Date().toISOString(), events: [], listeners: new Set() };
+  jobs.set(id, job);
+  queue.push(job);
+  setStatus(job, "queued");
+  pump();
+  sendJson(res, 202, summaryOf(job));
+}
+
+function getRun(job: Job | undefined, id: string, url: URL, res: http.ServerResponse) {
+  const reportJson = readRunFile(id, "report.json");
+  if (!job && reportJson === null) {
+    return sendJson(res, 404, { error: `Unknown run "${id}"` });
+  }
+  if (url.searchParams.get("format") === "md") {
+    const markdown = readRunFile(id, "report.md");
+    if (markdown === null) return sendJson(res, 404, { error: `Run "${id}" has no report yet`, status: job?.status });
+    res.writeHead(200, { "Content-Type": "text/markdown; charset=utf-8" });
+    return res.end(markdown);
+  }
+  // Runs from before this server started are only known by their files
+  const summary = job ? summaryOf(job) : { id, status: "succeeded" };
+  sendJson(res, 200, { ...summary, report: reportJson ? JSON.parse(reportJson) : null });
+}
+
+/** Serves a file from the run's assets/ folder — the report's image links are relative to the run directory. */
+function getAsset(id: string, url: URL, res: http.ServerResponse) {
+  const assets = path.join(getRunDir(id), "assets");
+  const file = path.resolve(assets, decodeURIComponent(url.pathname.split("/").slice(4).join("/")));
+  if (!file.startsWith(assets + path.sep) || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    return sendJson(res, 404, { error: "Not found" });
+  }
+  const types: Record<string, string> = { ".png": "image/png", ".jpg": "image/jpeg", ".jpeg": "image/jpeg" };
+  res.writeHead(200, { "Content-Type": types[path.extname(file).toLowerCase()] ?? "application/octet-stream" });
+  fs.createReadStream(file).pipe(res);
+}
+
+function streamEvents(job: Job, req: http.IncomingMessage, res: http.ServerResponse) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  // Replay what the client missed — everything, or what came after Last-Event-ID on a reconnect
+  const after = Number(req.headers["last-event-id"] ?? 0);
+  for (const event of job.events.filter((e) => e.id > after)) writeEvent(res, event);
+  if (isFinished(job)) return res.end();
+  job.listeners.add(res);
+  req.on("close", () => job.listeners.delete(res));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+  const [, root, id, sub] = url.pathname.split("/");
+  try {
+    if (root !== "runs") return sendJson(res, 404, { error: "Not found" });
+
+    if (!id) {
+      if (req.method === "POST") return await createRun(req, res);
+      if (req.method === "GET") return sendJson(res, 200, [...jobs.values()].map(summaryOf));
+      return sendJson(res, 405, { error: "Method not allowed" });
+    }
+
+    // Every handler below turns the ID into a path under the runs directory
+    if (!isRunId(id)) return sendJson(res, 404, { error: `Unknown run "${id}"` });
+    const job = jobs.get(id);
+    if (sub === "events" && req.method === "GET") {
+      if (!job) return sendJson(res, 404, { error: `Unknown run "${id}"` });
+      return streamEvents(job, req, res);
+    }
+    if (sub === "assets" && req.method === "GET") return getAsset(id, url, res);
+    if (!sub && req.method === "GET") return getRun(job, id, url, res);
+    if (!sub && req.method === "DELETE") {
+      if (!job) return sendJson(res, 404, { error: `Unknown run "${id}"` });
+      if (isFinished(job)) return sendJson(res, 409, { error: `Run "${id}" already ${job.status}` });
+      cancel(job);
+      return sendJson(res, 202, summaryOf(job));
+    }
+    sendJson(res, 404, { error: "Not found" });
+  } catch (err) {
+    sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) });
+  }
+});
+
+// Stopping the server cancels its runs, so none of them leaves a session open
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    console.log(`\n[Server] Shutting down — cancelling ${running} running run(s)`);
+    server.close();
+    for (const job of jobs.values()) {
+      if (!isFinished(job)) cancel(job);
+    }
+    const check = setInterval(() => {
+      if (running === 0) {
+        clearInterval(check);
+        process.exit(0);
+      }
+    }, 200);
+  });
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`[Server] MaSteel API listening on http://${HOST}:${PORT} — up to ${MAX_JOBS} run(s) at a time`);
+});
@@ -1,77 +1,300 @@
-import Steel from "steel-sdk";
-import { chromium } from "playwright";
-import type { Browser } from "playwright";
+import type { Browser, BrowserContext, Page } from "playwright";
+import { steelProvider } from "./browsers/steel";
+import { localProvider } from "./browsers/local";
+import type { BrowserProvider, SessionInfo } from "./browsers/types";
+import { recordPageLoad, recordSessionStart, recordSessionEnd } from "./usage";
+import { emitRunEvent } from "./events";
+import { attachArchive, flushArchive, getArchiveMode, settleRecordings } from "./archive";
+import { attachAuth } from "./auth";
 
-const client = new Steel({ steelAPIKey: process.env.STEEL_API_KEY });
+export type { SessionInfo } from "./browsers/types";
 
-type Session = Awaited<ReturnType<typeof client.sessions.create>>;
+const providers: Record<string, BrowserProvider> = {
+  [steelProvider.name]: steelProvider,
+  [localProvider.name]: localProvider,
+};
 
-let sessionPromise: Promise<Session> | null = null;
+export const BROWSER_PROVIDERS = Object.keys(providers);
+
+// Rotate a little before the backend's own timeout so we never hand out a page
+// from a session that is about to be killed mid-navigation.
+const EXPIRY_MARGIN_MS = 60000;
+
+// Each page operation is retried at most this many times on a fresh session.
+const MAX_RETRIES = 1;
+
+let provider: BrowserProvider | null = null;
+let maxSessions = Number(process.env.MAX_SESSIONS) || 5;
+
+// Pages open at once across every caller — parallel research agents share one browser.
+let pageConcurrency = Number(process.env.PAGE_CONCURRENCY) || 4;
+let openPages = 0;
+const pageWaiters: (() => void)[] = [];
+
+let sessionPromise: Promise<SessionInfo> | null = null;
+let sessionsCreated = 0;
+
+// Bumped on every rotation so parallel failures from the same session rotate only once.
+let generation = 0;
+let rotatePromise: Promise<void> | null = null;
 
 let browser: Browser | null = null;
 let browserPromise: Promise<Browser> | null = null;
+let contextPromise: Promise<BrowserContext> | null = null;
+
+function resolveProvider(name: string): BrowserProvider {
+  const p = providers[name];
+  if (!p) {
+    throw new Error(`Unknown browser provider "${name}" — expected one of: ${BROWSER_PROVIDERS.join(", ")}`);
+  }
+  return p;
+}
+
+/**
+ * Selects the browser backend. Must be called before the first getSession()/getPage().
+ */
+export function setBrowserProvider(name: string) {
+  if (sessionPromise) {
+    throw new Error("Cannot change browser provider after the session has started");
+  }
+  provider = resolveProvider(name);
+}
+
+/**
+ * Falls back to BROWSER_PROVIDER (default "steel") when setBrowserProvider() wasn't called.
+ */
+export function getBrowserProvider(): BrowserProvider {
+  if (!provider) {
+    provider = resolveProvider(process.env.BROWSER_PROVIDER || "steel");
+  }
+  return provider;
+}
+
+/**
+ * Caps how many sessions (the first one plus rotations) a single run may create.
+ */
+export function setMaxSessions(n: number) {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid session cap "${n}" — expected a positive integer`);
+  }
+  maxSessions = n;
+}
+
+/**
+ * Caps how many pages withPage() keeps open at once; further callers wait for a slot.
+ */
+export function setPageConcurrency(n: number) {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Invalid page concurrency "${n}" — expected a positive integer`);
+  }
+  pageConcurrency = n;
+}
+
+export function getPageConcurrency(): number {
+  return pageConcurrency;
+}
 
 /**
- * Lazy singleton — creates a Steel session on first call, returns the cached
- * session object on subsequent calls. Promise-based to be safe under parallel calls.
+ * Lazy singleton — creates a session on the selected provider on first call,
+ * returns the cached session object on subsequent calls. Promise-based to be safe under parallel calls.
  */
-export async function getSession(): Promise<Session> {
+export async function getSession(): Promise<SessionInfo> {
   if (!sessionPromise) {
-    sessionPromise = client.sessions.create({
-      timeout: 900000, // 15 min — hobby plan max; set useProxy/solveCaptcha on paid plans
-    }).then((s) => {
-      console.log(`\n[Steel] Session created`);
-      console.log(`[Steel] Live viewer: ${s.debugUrl}\n`);
+    const provider = getBrowserProvider();
+    if (sessionsCreated >= maxSessions) {
+      throw new Error(`Session cap reached — ${maxSessions} session(s) already used this run (MAX_SESSIONS)`);
+    }
+    sessionsCreated++;
+    sessionPromise = provider.createSession().then((s) => {
+      recordSessionStart(s.id);
+      console.log(`\n[${provider.label}] Session created${sessionsCreated > 1 ? ` (${sessionsCreated}/${maxSessions})` : ""}`);
+      if (s.liveViewUrl) {
+        console.log(`[${provider.label}] Live viewer: ${s.liveViewUrl}\n`);
+        emitRunEvent("live-view", { url: s.liveViewUrl, sessionId: s.id });
+      }
       return s;
     });
+    // Don't cache a failed creation — the next caller should try again.
+    sessionPromise.catch(() => {
+      sessionPromise = null;
+    });
   }
   return sessionPromise;
 }
 
 /**
- * Connects Playwright to the existing Steel session via CDP.
- * Reuses the same context so Steel's fingerprint stays intact
- * and activity shows in the live viewer.
- * Promise-based so parallel tool calls don't each open a new CDP connection.
+ * Connects Playwright to the existing session through the selected provider.
+ * Promise-based so parallel tool calls don't each open a new connection.
+ * A dropped connection clears the cache so the next call reconnects.
  */
 export async function getBrowser(): Promise<Browser> {
   if (!browserPromise) {
-    browserPromise = (async () => {
+    const pending = (async () => {
+      const provider = getBrowserProvider();
       const sess = await getSession();
-      const cdpUrl = `wss://connect.steel.dev?apiKey=${process.env.STEEL_API_KEY}&sessionId=${sess.id}`;
-      browser = await chromium.connectOverCDP(cdpUrl);
-      console.log(`[Steel] Playwright connected via CDP`);
-      return browser;
+      const b = await provider.connect(sess);
+      b.on("disconnected", () => {
+        if (browser === b) {
+          console.log(`[${provider.label}] Browser disconnected`);
+          resetBrowser();
+        }
+      });
+      browser = b;
+      console.log(`[${provider.label}] Playwright connected`);
+      return b;
     })();
+    browserPromise = pending;
+    pending.catch(() => {
+      if (browserPromise === pending) resetBrowser();
+    });
   }
   return browserPromise;
 }
 
+function resetBrowser() {
+  browser = null;
+  browserPromise = null;
+  contextPromise = null;
+}
+
+/**
+ * Returns the single shared context — the session's default one when the
+ * provider exposes it (Steel), otherwise a new one created once. Replays always
+ * get their own context with service workers blocked, so every request goes
+ * through the archive's routes. Saved logins from the config's auth profiles
+ * are loaded into it.
+ */
+async function getContext(): Promise<BrowserContext> {
+  if (!contextPromise) {
+    contextPromise = (async () => {
+      const b = await getBrowser();
+      const contexts = b.contexts();
+      const context =
+        getArchiveMode() === "replay"
+          ? await b.newContext({ serviceWorkers: "block" })
+          : contexts.length > 0
+            ? contexts[0]
+            : await b.newContext();
+      await attachArchive(context);
+      await attachAuth(context);
+      return context;
+    })();
+  }
+  return contextPromise;
+}
+
 /**
  * Returns a fresh page inside the existing (single) context.
  * Each tool call gets its own page so parallel navigations don't clobber each other,
  * but all pages share the same context — Steel fingerprint stays intact.
  */
 export async function getPage() {
-  const b = await getBrowser();
-  const contexts = b.contexts();
-  const context = contexts.length > 0 ? contexts[0] : await b.newContext();
+  const context = await getContext();
   return context.newPage();
 }
 
 /**
- * Cleanly tears down the Playwright connection and releases the Steel session
- * so it doesn't linger in the dashboard.
+ * True for errors that mean the browser/session is gone rather than the page
+ * itself failing (HTTP errors, timeouts on a slow site, etc.).
+ */
+export function isSessionError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /Target (page, context or browser )?(has been )?closed|Browser has been closed|browser has disconnected|Connection closed|WebSocket|ECONNRESET|ECONNREFUSED|session.*(expired|not found|released)/i.test(message);
+}
+
+/**
+ * Releases the current session and starts a new one. Callers pass the
+ * generation they were running on; if another call already rotated away from
+ * it, this just waits for that rotation instead of starting a second one.
+ */
+async function rotateSession(failedGeneration: number, reason: string) {
+  if (failedGeneration === generation && !rotatePromise) {
+    generation++;
+    const provider = getBrowserProvider();
+    console.log(`\n[${provider.label}] Rotating session — ${reason}`);
+    rotatePromise = (async () => {
+      try {
+        await releaseSession();
+      } catch (err) {
+        // The old session is often already dead on the backend — nothing to do.
+        console.log(`[${provider.label}] Release of old session failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      await getSession();
+    })().finally(() => {
+      rotatePromise = null;
+    });
+  }
+  if (rotatePromise) {
+    await rotatePromise;
+  }
+}
+
+/**
+ * Runs `fn` on a fresh page and closes the page afterwards. Counts the page
+ * against the run's page budget, then waits for a free page slot (see
+ * setPageConcurrency). If the session is about to expire
+ * it is rotated first; if the browser or session dies while `fn` runs, the
+ * session is rotated and `fn` is retried on a new page.
+ */
+export async function withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+  recordPageLoad();
+  while (openPages >= pageConcurrency) {
+    await new Promise<void>((resolve) => pageWaiters.push(resolve));
+  }
+  openPages++;
+  try {
+    return await withSessionRetry(fn);
+  } finally {
+    openPages--;
+    pageWaiters.shift()?.();
+  }
+}
+
+async function withSessionRetry<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let gen = generation;
+    const sess = await getSession();
+    if (sess.expiresAt && sess.expiresAt - Date.now() < EXPIRY_MARGIN_MS) {
+      await rotateSession(gen, "session about to expire");
+      gen = generation;
+    }
+
+    let page: Page | null = null;
+    try {
+      page = await getPage();
+      return await fn(page);
+    } catch (err) {
+      if (attempt >= MAX_RETRIES || !isSessionError(err)) throw err;
+      await rotateSession(gen, err instanceof Error ? err.message.split("\n")[0] : String(err));
+    } finally {
+      if (page) {
+        // Recorded responses are read from the page, so let them finish first
+        await settleRecordings();
+        await page.close().catch(() => {});
+      }
+    }
+  }
+}
+
+/**
+ * Cleanly tears down the Playwright connection and releases the session
+ * so it doesn't linger in the provider's dashboard. A recording run's
+ * network archive is written out first.
  */
 export async function releaseSession() {
-  if (browser) {
-    await browser.close();
-    browser = null;
+  await flushArchive();
+  const b = browser;
+  resetBrowser();
+  if (b) {
+    await b.close().catch(() => {});
   }
   if (sessionPromise) {
-    const session = await sessionPromise;
-    await client.sessions.release(session.id);
-    console.log(`\n[Steel] Session ${session.id} released`);
+    const provider = getBrowserProvider();
+    const pending = sessionPromise;
     sessionPromise = null;
+    const session = await pending;
+    recordSessionEnd(session.id);
+    await provider.releaseSession(session);
+    console.log(`\n[${provider.label}] Session ${session.id} released`);
   }
 }
@@ -0,0 +1,48 @@
+/**
+ * Per-run corpus of every page returned by scrape-url. Each URL gets a stable
+ * source ID (S1, S2, ...) the first time it is scraped; the report cites these
+ * IDs and write-report checks claims against the stored content.
+ */
+
+export interface Source {
+  id: string;
+  url: string;
+  title: string;
+  /** Full converted markdown — before any truncation applied to the tool result. */
+  content: string;
+  scrapedAt: string;
+}
+
+const sources = new Map<string, Source>();
+const idsByUrl = new Map<string, string>();
+
+/**
+ * Registers a scraped page and returns its source entry. Re-scraping a URL keeps
+ * its ID and replaces the stored content with the latest copy.
+ */
+export function addSource(url: string, title: string, content: string): Source {
+  let id = idsByUrl.get(url);
+  if (!id) {
+    id = `S${sources.size + 1}`;
+    idsByUrl.set(url, id);
+  }
+  const source = { id, url, title, content, scrapedAt: new Date().toISOString() };
+  sources.set(id, source);
+  return source;
+}
+
+/**
+ * Puts back a source from an earlier process of the same run (see resume), keeping its ID.
+ */
+export function restoreSource(source: Source) {
+  sources.set(source.id, source);
+  idsByUrl.set(source.url, source.id);
+}
+
+export function getSource(id: string): Source | undefined {
+  return sources.get(id);
+}
+
+export function listSources(): Source[] {
+  return Array.from(sources.values());
+}
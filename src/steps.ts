@@ -0,0 +1,46 @@
+import type { LLMStepResult } from "@mastra/core/agent";
+import type { ValidationError } from "@mastra/core/tools";
+
+/**
+ * Typed access to the tool results in an agent run's steps. Agents report a
+ * tool under its key in their `tools` record (the camelCase form of its id)
+ * with an `unknown` result; these helpers match a result to the tool itself
+ * and hand it back with that tool's input and output types.
+ */
+
+type ToolResultChunk = LLMStepResult["toolResults"][number];
+
+interface AnyTool {
+  id: string;
+  execute?: (input: never, context: never) => Promise<unknown>;
+}
+
+export type ToolInput<T> = T extends { execute?: (input: infer I, context: never) => unknown } ? I : never;
+export type ToolOutput<T> = T extends { execute?: (input: never, context: never) => Promise<infer O> } ? Exclude<O, ValidationError> : never;
+
+export interface ToolCall<T> {
+  args?: ToolInput<T>;
+  result: ToolOutput<T>;
+}
+
+/** Mastra's answer when a call's input didn't match the tool's schema — the tool never ran. */
+export function isValidationError(result: unknown): result is ValidationError {
+  return typeof result === "object" && result !== null && "error" in result && result.error === true;
+}
+
+/** True when an agent's tool name refers to `tool`, by id or by its camelCase key. */
+export function isTool(toolName: string, tool: { id: string }): boolean {
+  return toolName === tool.id || toolName === tool.id.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/** The call behind a tool result when it came from `tool` and the tool ran, otherwise null. */
+export function callOf<T extends AnyTool>(chunk: ToolResultChunk, tool: T): ToolCall<T> | null {
+  const { toolName, args, result } = chunk.payload;
+  if (!isTool(toolName, tool) || isValidationError(result)) return null;
+  return { args: args as ToolInput<T> | undefined, result: result as ToolOutput<T> };
+}
+
+/** Every call of `tool` across the steps, in order. */
+export function callsOf<T extends AnyTool>(steps: LLMStepResult[], tool: T): ToolCall<T>[] {
+  return steps.flatMap((step) => step.toolResults.flatMap((chunk) => callOf(chunk, tool) ?? []));
+}
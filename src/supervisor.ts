@@ -0,0 +1,224 @@
+import type { LLMStepResult } from "@mastra/core/agent";
+import { researchAgent, synthesisAgent } from "./agent";
+import { scrapeUrl } from "./tools/scrapeUrl";
+import { inspectSite } from "./tools/inspectSite";
+import { crawlSite } from "./tools/crawlSite";
+import { explorePricing } from "./tools/explorePricing";
+import { captureScreenshot } from "./tools/captureScreenshot";
+import { writeReport } from "./tools/writeReport";
+import { extractProfile, formatCrawlEntries, formatPricingVariants } from "./dossier";
+import type { Dossier, Page } from "./dossier";
+import { callTool } from "./pipeline";
+import { getRunId, readRunFile, writeRunFile } from "./runs";
+import { getSource } from "./sources";
+import { overBudget, wrapUpWhenOverBudget } from "./usage";
+import { callOf, callsOf } from "./steps";
+import type { CompetitorConfig } from "./config";
+import type { CompetitorProfile, Screenshot } from "./report/schema";
+
+/**
+ * Supervisor mode (the default): instead of one agent working through every
+ * competitor in a single context window, each competitor gets its own research
+ * agent run with the same tools, a few at a time. Each run's tool results
+ * become a dossier, the extraction agent turns it into a profile, and a final
+ * synthesis agent writes the report from the profiles alone. A competitor whose
+ * research fails is left out and named in the report; the rest still get written.
+ * With a `self` entry in the config our own product is researched first, the
+ * same way, and the synthesis compares the competitors against it.
+ */
+
+const RESEARCH_MAX_STEPS = 30;
+
+export interface ResearchOutcome {
+  competitor: CompetitorConfig;
+  profile?: CompetitorProfile;
+  error?: string;
+}
+
+export interface SupervisorOptions {
+  /** Competitors researched at once */
+  concurrency: number;
+  /** Called after every step of every research agent, with the competitor's label */
+  onStep?: (label: string, step: LLMStepResult) => void;
+  /** Our own product, researched first and compared against the competitors */
+  self?: CompetitorConfig;
+}
+
+function labelOf(competitor: CompetitorConfig): string {
+  return competitor.name ?? new URL(competitor.url).hostname.replace(/^www\./, "");
+}
+
+function slugOf(competitor: CompetitorConfig): string {
+  return labelOf(competitor).toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/**
+ * Collects the pages a research run read — every scraped page, site
+ * inspection, explore-pricing capture and crawl-site entry list that produced
+ * content — in the order they were read. A page read in several chunks is
+ * taken once, in full, from its source; so is a pricing page.
+ */
+function pagesFrom(steps: LLMStepResult[]): Page[] {
+  const pages: Page[] = [];
+  const scrapedIds = new Set<string>();
+  const pricedUrls = new Set<string>();
+  for (const step of steps) {
+    for (const chunk of step.toolResults) {
+      const scraped = callOf(chunk, scrapeUrl);
+      const inspected = callOf(chunk, inspectSite);
+      const crawled = callOf(chunk, crawlSite);
+      const pricing = callOf(chunk, explorePricing);
+      if (scraped?.result.sourceId) {
+        const { result } = scraped;
+        if (scrapedIds.has(result.sourceId)) continue;
+        scrapedIds.add(result.sourceId);
+        pages.push({ topic: "page", url: result.url, sourceId: result.sourceId, content: getSource(result.sourceId)?.content ?? result.content });
+      } else if (inspected?.result.sourceId) {
+        const sourceId = inspected.result.sourceId;
+        pages.push({ topic: "site inspection", url: inspected.result.url, sourceId, content: getSource(sourceId)?.content ?? "" });
+      } else if (crawled && crawled.result.entries.length > 0) {
+        const { result } = crawled;
+        pages.push({ topic: "dated entries", url: result.startUrl, content: formatCrawlEntries(result.entries, result.recentSince) });
+      } else if (pricing && pricing.result.variants.length > 0 && !pricedUrls.has(pricing.result.url)) {
+        const { result } = pricing;
+        pricedUrls.add(result.url);
+        pages.push({ topic: "pricing", url: result.url, content: formatPricingVariants(result.variants) });
+      }
+    }
+  }
+  return pages;
+}
+
+/** The screenshots a research run took, captioned by capture-screenshot. */
+function screenshotsFrom(steps: LLMStepResult[]): Screenshot[] {
+  return callsOf(steps, captureScreenshot).flatMap(({ result }) =>
+    result.screenshot ? [{ asset: result.screenshot, caption: result.caption }] : [],
+  );
+}
+
+async function researchOne(competitor: CompetitorConfig, options: SupervisorOptions, ours: boolean): Promise<CompetitorProfile> {
+  const label = labelOf(competitor);
+  // A resumed run keeps the profiles it already extracted
+  const saved = readRunFile(getRunId(), `dossiers/${slugOf(competitor)}.json`);
+  if (saved) {
+    console.log(`[Supervisor] ${label}: using the dossier saved before the run was interrupted`);
+    return JSON.parse(saved).profile;
+  }
+
+  const prompt = [
+    ours ? "Research our own product, exactly as you would a competitor — it is compared against the competitors:" : "Research this competitor:",
+    `1. ${competitor.name ? `${competitor.name} — ` : ""}${competitor.url}`,
+    ...Object.entries(competitor.subpages).map(([topic, url]) => `   Known ${topic} page: ${url}`),
+  ].join("\n");
+
+  const research = await researchAgent.generate(prompt, {
+    maxSteps: RESEARCH_MAX_STEPS,
+    onStepFinish: (step) => options.onStep?.(label, step),
+    prepareStep: wrapUpWhenOverBudget(false),
+  });
+
+  const pages = pagesFrom(research.steps);
+  if (pages.length === 0) {
+    throw new Error("no page could be read");
+  }
+  const dossier: Dossier = { competitor, pages, notes: research.text ? [`Researcher's notes: ${research.text.trim()}`] : [] };
+
+  console.log(`\n[Supervisor] ${label}: extracting profile from ${pages.length} page(s)`);
+  const profile = { ...(await extractProfile(dossier)), screenshots: screenshotsFrom(research.steps) };
+  writeRunFile(
+    `dossiers/${slugOf(competitor)}.json`,
+    JSON.stringify({ ...dossier, pages: pages.map(({ content, ...page }) => ({ ...page, chars: content.length })), profile }, null, 2),
+  );
+  return profile;
+}
+
+/**
+ * Researches every competitor in parallel, at most `concurrency` at a time.
+ * Never rejects — a failed competitor comes back with an error instead of a profile.
+ * Our own product (options.self) is researched first and its outcome comes first.
+ */
+export async function researchAll(competitors: CompetitorConfig[], options: SupervisorOptions): Promise<ResearchOutcome[]> {
+  const { self } = options;
+  const queue = self ? [self, ...competitors] : competitors;
+  const outcomes: ResearchOutcome[] = new Array(queue.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < queue.length) {
+      const i = next++;
+      const competitor = queue[i];
+      const budget = overBudget();
+      if (budget) {
+        outcomes[i] = { competitor, error: `not researched — ${budget}` };
+        console.log(`[Supervisor] ${labelOf(competitor)}: skipped — ${budget}`);
+        continue;
+      }
+      console.log(`\n[Supervisor] Researching ${labelOf(competitor)}${competitor === self ? " (our product)" : ""} (${i + 1}/${queue.length})`);
+      try {
+        outcomes[i] = { competitor, profile: await researchOne(competitor, options, competitor === self) };
+        console.log(`[Supervisor] ${labelOf(competitor)}: done`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        outcomes[i] = { competitor, error: message };
+        console.log(`[Supervisor] ${labelOf(competitor)}: failed — ${message}`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, queue.length) }, worker));
+  return outcomes;
+}
+
+/**
+ * Runs the research agents, then the synthesis agent over their profiles.
+ * If synthesis doesn't get a report accepted, the profiles are written as they
+ * are so the research isn't lost. Returns the write-report result.
+ */
+export async function runSupervisor(competitors: CompetitorConfig[], options: SupervisorOptions) {
+  const outcomes = await researchAll(competitors, options);
+  // Our own product's outcome comes first; without a profile the report is a plain comparison
+  const ours = options.self ? outcomes.shift() : undefined;
+  const self = ours?.profile;
+  const profiles = outcomes.flatMap((o) => (o.profile ? [o.profile] : []));
+  const failed = outcomes.filter((o) => o.error);
+  if (profiles.length === 0) {
+    throw new Error(`Research failed for every competitor:\n${failed.map((o) => `  ${labelOf(o.competitor)}: ${o.error}`).join("\n")}`);
+  }
+
+  const failedNote =
+    failed.length > 0
+      ? `\nThese competitors could not be researched — say so in the summary:\n${failed.map((o) => `- ${labelOf(o.competitor)} (${o.competitor.url}): ${o.error}`).join("\n")}\n`
+      : "";
+  const selfNote = ours?.error
+    ? `\nOur own product (${ours.competitor.url}) could not be researched (${ours.error}) — leave out self and gapAnalysis, and say so in the summary.\n`
+    : "";
+  console.log(`\n[Supervisor] Synthesizing the report from ${profiles.length} dossier(s)${self ? " and our product's" : ""}${failed.length > 0 ? `, ${failed.length} failed` : ""}`);
+
+  const synthesis = await synthesisAgent.generate(
+    (self
+      ? "Write the report from the dossiers below: self is our own product, competitors are the competitors. Pass self as self and " +
+        "the competitors to write-report in the same order, and write the gapAnalysis and summary from our point of view. Compare them "
+      : "Write the report from the per-competitor dossiers below. Pass the profiles to write-report in the same order. Compare them ") +
+      "against each other to sharpen keyDifferentiator, strengths, weaknesses and comparison values, but keep every cited fact and " +
+      "its [S#] marker as it is.\n" +
+      failedNote +
+      selfNote +
+      "\n```json\n" +
+      JSON.stringify(self ? { self, competitors: profiles } : profiles, null, 2) +
+      "\n```",
+    { maxSteps: 3, onStepFinish: (step) => options.onStep?.("synthesis", step) },
+  );
+
+  const written = callsOf(synthesis.steps, writeReport).find((call) => call.result.success);
+  if (written) return written.result;
+
+  console.log(`[Supervisor] Synthesis did not write the report — writing the dossier profiles as they are`);
+  const names = failed.map((o) => labelOf(o.competitor)).join(", ");
+  return callTool(writeReport, {
+    ...(self ? { self } : {}),
+    competitors: profiles,
+    summary:
+      `Report assembled from ${profiles.length} per-competitor dossier(s) without a synthesis pass.` +
+      (failed.length > 0 ? ` Research failed for: ${names}.` : ""),
+  });
+}
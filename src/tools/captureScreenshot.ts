@@ -0,0 +1,130 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import type { Page } from "playwright";
+import { withPage } from "../session";
+import { isCacheOnly } from "../cache";
+import { checkRobots, politely } from "../politeness";
+import { dismissCookieBanners } from "../interactions";
+import { slugify, writeRunFile } from "../runs";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
+
+// Mobile is a viewport size only: every page shares the session's context, so
+// the user agent stays the desktop one — enough for CSS breakpoints to apply.
+const VIEWPORTS = {
+  desktop: { width: 1440, height: 900 },
+  mobile: { width: 390, height: 844 },
+};
+
+type Mode = "viewport" | "full-page" | "element";
+type Viewport = keyof typeof VIEWPORTS;
+
+interface Capture {
+  title: string;
+  png: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Scrolls to the bottom and back so lazy-loaded images below the fold are
+ * loaded before a full-page capture.
+ */
+async function loadLazyContent(page: Page): Promise<void> {
+  await page.evaluate(async () => {
+    const win = globalThis as any;
+    const step = win.innerHeight;
+    for (let y = 0; y < win.document.body.scrollHeight && y < 20 * step; y += step) {
+      win.scrollTo(0, y);
+      await new Promise((resolve) => setTimeout(resolve, 150));
+    }
+    win.scrollTo(0, 0);
+  });
+  await page.waitForTimeout(500);
+}
+
+async function capture(page: Page, url: string, mode: Mode, viewport: Viewport, selector?: string): Promise<Capture> {
+  const size = VIEWPORTS[viewport];
+  await page.setViewportSize(size);
+  console.log(`  [capture-screenshot] Navigating to ${url} (${viewport})`);
+  const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  if (response && response.status() >= 400) {
+    throw new Error(`HTTP ${response.status()}`);
+  }
+  await page.waitForTimeout(2000);
+  await dismissCookieBanners(page);
+  const title = await page.title();
+
+  if (mode === "element") {
+    const element = page.locator(selector!).first();
+    if (!(await element.isVisible({ timeout: 5000 }).catch(() => false))) {
+      throw new Error(`No visible element matches "${selector}"`);
+    }
+    await element.scrollIntoViewIfNeeded({ timeout: 5000 });
+    const box = await element.boundingBox();
+    const png = await element.screenshot({ timeout: 15000 });
+    return { title, png, width: Math.round(box?.width ?? 0), height: Math.round(box?.height ?? 0) };
+  }
+
+  if (mode === "full-page") {
+    await loadLazyContent(page);
+    const height = await page.evaluate(() => (globalThis as any).document.documentElement.scrollHeight as number);
+    const png = await page.screenshot({ fullPage: true, timeout: 30000 });
+    return { title, png, width: size.width, height };
+  }
+
+  const png = await page.screenshot({ timeout: 15000 });
+  return { title, png, ...size };
+}
+
+export const captureScreenshot = meterTool(checkpointTool(createTool({
+  id: "capture-screenshot",
+  description:
+    "Takes a screenshot of a page and saves it with the run, so the report can show it — e.g. a competitor's homepage hero or pricing table. " +
+    'Modes: "viewport" (what a visitor sees first, for hero sections), "full-page" (the whole scrolled page), or "element" (one element picked by a CSS selector, e.g. the pricing table). ' +
+    'Viewports: "desktop" (1440×900, default) or "mobile" (390×844) to compare responsive designs. Cookie banners are dismissed first. ' +
+    "Returns a screenshot path — list it in the competitor's screenshots in write-report to embed the image.",
+  inputSchema: z.object({
+    url: z.string().url().describe("The page to capture"),
+    mode: z.enum(["viewport", "full-page", "element"]).default("viewport").describe("What to capture"),
+    selector: z.string().optional().describe('For mode "element": CSS selector of the element, e.g. "#pricing-table" or "section:has(h2:has-text(\'Compare plans\'))"'),
+    viewport: z.enum(["desktop", "mobile"]).default("desktop").describe("Browser viewport size"),
+  }),
+  execute: async ({ url, mode = "viewport", selector, viewport = "desktop" }) => {
+    if (mode === "element" && !selector) {
+      return { url, screenshot: null, error: 'mode "element" needs a selector' };
+    }
+    if (isCacheOnly()) {
+      console.log(`  [capture-screenshot] Skipped ${url} (cache-only run)`);
+      return { url, screenshot: null, error: "Screenshots are not cached — this is a cache-only run, so the page was not visited" };
+    }
+    const robots = await checkRobots(url);
+    if (!robots.allowed) {
+      return { url, screenshot: null, error: `${robots.reason} — page not visited`, blocked: true };
+    }
+
+    let shot: Capture;
+    try {
+      shot = await politely(url, () => withPage((page) => capture(page, url, mode, viewport, selector)));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message.split("\n")[0] : String(err);
+      console.log(`  [capture-screenshot] Error on ${url}: ${message}`);
+      return { url, screenshot: null, error: message };
+    }
+
+    const target = mode === "element" ? `-${selector!.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40)}` : "";
+    const screenshot = `assets/screenshots/${slugify(url)}-${viewport}-${mode}${target}.png`;
+    writeRunFile(screenshot, shot.png);
+    console.log(`  [capture-screenshot] Saved ${screenshot} (${shot.width}×${shot.height})`);
+
+    const what = mode === "element" ? `"${selector}"` : mode === "full-page" ? "full page" : "first screen";
+    return {
+      url,
+      title: shot.title,
+      screenshot,
+      width: shot.width,
+      height: shot.height,
+      caption: `${shot.title || new URL(url).hostname} — ${what}, ${viewport}`,
+    };
+  },
+}), (result) => !result.screenshot));
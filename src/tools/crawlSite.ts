@@ -0,0 +1,310 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import type { Page } from "playwright";
+import { withPage, isSessionError } from "../session";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { authScope } from "../auth";
+import { checkRobots, politely } from "../politeness";
+import { collectLinks } from "../interactions";
+import type { LinkInfo } from "../interactions";
+import { htmlToMarkdown, extractMainHtml } from "../markdown";
+import { addSource } from "../sources";
+import { snapshotPage } from "../runs";
+import { RECENT_LAUNCH_DAYS } from "../report/schema";
+import { meterTool, overBudget } from "../usage";
+import { checkpointTool } from "../checkpoint";
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_MAX_ENTRIES = 20;
+const MAX_SUMMARY_CHARS = 300;
+
+// Links that lead towards announcements (or to older ones) are followed first
+const ANNOUNCEMENT_HINT = /changelog|release|what-?s-?new|updates?\b|blog|news|announc|launch|product-?updates|\bpage[=/]?\d|older|next/i;
+const NOT_A_PAGE = /\.(pdf|png|jpe?g|gif|svg|webp|zip|mp4|xml|json|rss|atom)$/i;
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+/** An entry as found on the page, before its date is parsed. */
+interface RawEntry {
+  title: string;
+  dateText: string;
+  summary: string;
+  url: string;
+}
+
+/** What gets cached per crawled page. */
+interface CrawledPage {
+  title: string;
+  markdown: string;
+  entries: RawEntry[];
+  links: LinkInfo[];
+}
+
+export interface DatedEntry {
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+  summary: string;
+  url: string;
+  sourceId: string;
+  /** Within the last RECENT_LAUNCH_DAYS days */
+  recent: boolean;
+}
+
+/**
+ * Finds dated entries on a blog index, changelog or release-notes page: cards
+ * and articles with a <time> or a date in their text, changelog headings that
+ * are dates, and the publish date of a single post.
+ * Runs inside the browser context via page.evaluate.
+ */
+async function findDatedEntries(page: Page): Promise<RawEntry[]> {
+  return (await page.evaluate((maxSummary: number) => {
+    const doc = (globalThis as any).document;
+    const DATE =
+      /\b(20\d{2})[-/.](\d{1,2})[-/.](\d{1,2})\b|\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.? \d{1,2}(st|nd|rd|th)?,? 20\d{2}\b|\b\d{1,2}(st|nd|rd|th)? (Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?,? 20\d{2}\b|\b(January|February|March|April|May|June|July|August|September|October|November|December) 20\d{2}\b/i;
+    const CONTAINER = 'article, li, section, [class*="post"], [class*="entry"], [class*="card"], [class*="changelog"], [class*="release"], [class*="update"]';
+    const clean = (text: string) => (text || "").trim().replace(/\s+/g, " ");
+    const entries: any[] = [];
+    const used = new Set<any>();
+
+    const fromContainer = (container: any, dateText: string) => {
+      if (!container || used.has(container)) return;
+      used.add(container);
+      const heading = container.querySelector("h1, h2, h3, h4, h5");
+      const link = heading?.closest("a") ?? heading?.querySelector("a") ?? container.querySelector("a[href]");
+      const title = clean(heading?.textContent ?? link?.textContent ?? "").replace(DATE, "").trim();
+      if (!title) return;
+      const paragraph = Array.from(container.querySelectorAll("p") as any[])
+        .map((p: any) => clean(p.textContent))
+        .find((t) => t.length > 20 && t !== title);
+      entries.push({ title: title.slice(0, 160), dateText, summary: (paragraph ?? "").slice(0, maxSummary), url: link?.href ?? "" });
+    };
+
+    for (const time of Array.from(doc.querySelectorAll("time") as any[])) {
+      fromContainer(time.closest(CONTAINER) ?? time.parentElement?.parentElement, time.getAttribute("datetime") || clean(time.textContent));
+    }
+    // textContent runs block elements together ("Terminal 2August 5"), so dates are looked for in leaf elements
+    const dateIn = (el: any): string | null => {
+      for (const node of [el, ...Array.from(el.querySelectorAll("*") as any[]).slice(0, 40)]) {
+        if (node.children.length > 0) continue;
+        const match = clean(node.textContent).match(DATE);
+        if (match) return match[0];
+      }
+      return null;
+    };
+    for (const el of Array.from(doc.querySelectorAll("article, [class*='post'], [class*='changelog'], [class*='release']") as any[])) {
+      if (el.querySelector("article")) continue;
+      const dateText = dateIn(el);
+      if (dateText) fromContainer(el, dateText);
+    }
+
+    // Changelog style: a date heading, then the changes until the next heading of the same level
+    for (const heading of Array.from(doc.querySelectorAll("h1, h2, h3, h4") as any[])) {
+      const match = clean(heading.textContent).match(DATE);
+      if (!match || used.has(heading)) continue;
+      used.add(heading);
+      const level = Number(heading.tagName[1]);
+      let title = clean(heading.textContent).replace(DATE, "").replace(/^[\s—–:|-]+|[\s—–:|-]+$/g, "");
+      const body: string[] = [];
+      for (let el = heading.nextElementSibling; el; el = el.nextElementSibling) {
+        const sub = /^H([1-6])$/.exec(el.tagName);
+        if (sub && Number(sub[1]) <= level) break;
+        if (sub && !title) title = clean(el.textContent);
+        else body.push(clean(el.textContent));
+      }
+      const summary = body.join(" ").trim();
+      if (!title) title = summary.split(/(?<=[.!?])\s/)[0] ?? "";
+      if (!title) continue;
+      const anchor = heading.id ? `#${heading.id}` : "";
+      entries.push({ title: title.slice(0, 160), dateText: match[0], summary: summary.slice(0, maxSummary), url: anchor ? (globalThis as any).location.href.split("#")[0] + anchor : "" });
+    }
+
+    // A single post: its own publish date
+    const published =
+      doc.querySelector('meta[property="article:published_time"]')?.getAttribute("content") ??
+      doc.querySelector("article time[datetime]")?.getAttribute("datetime");
+    const h1 = clean(doc.querySelector("h1")?.textContent ?? "");
+    if (published && h1 && entries.length <= 1) {
+      const description = doc.querySelector('meta[name="description"]')?.getAttribute("content") ?? "";
+      entries.splice(0, entries.length, { title: h1.slice(0, 160), dateText: published, summary: clean(description).slice(0, maxSummary), url: "" });
+    }
+    return entries.slice(0, 60);
+  }, MAX_SUMMARY_CHARS)) as RawEntry[];
+}
+
+/** Parses the date formats findDatedEntries matches into YYYY-MM-DD, or null. */
+function parseDate(text: string): string | null {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const valid = (y: number, m: number, d: number) => (m >= 1 && m <= 12 && d >= 1 && d <= 31 ? `${y}-${pad(m)}-${pad(d)}` : null);
+  // "Mar", "Sept" and "March" all count; "Marketing" doesn't
+  const month = (name: string) => (name.length >= 3 ? MONTHS.findIndex((full) => full.startsWith(name.toLowerCase())) + 1 : 0);
+
+  let m = text.match(/\b(20\d{2})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return valid(+m[1], +m[2], +m[3]);
+  m = text.match(/\b([A-Za-z]{3,9})\.? (\d{1,2})(?:st|nd|rd|th)?,? (20\d{2})\b/);
+  if (m && month(m[1])) return valid(+m[3], month(m[1]), +m[2]);
+  m = text.match(/\b(\d{1,2})(?:st|nd|rd|th)? ([A-Za-z]{3,9})\.?,? (20\d{2})\b/);
+  if (m && month(m[2])) return valid(+m[3], month(m[2]), +m[1]);
+  // "March 2025" — dated to the first of the month
+  m = text.match(/\b([A-Za-z]{3,9}) (20\d{2})\b/);
+  if (m && month(m[1])) return valid(+m[2], month(m[1]), 1);
+  return null;
+}
+
+/** Turns a path pattern into a regex: `*` matches within a path segment, `**` across segments. */
+function globToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*\*/g, "\u0000").replace(/\*/g, "[^/]*").replace(/\u0000/g, ".*");
+  return new RegExp(`^${escaped.startsWith("/") ? "" : "/"}${escaped}`, "i");
+}
+
+/** The registrable-ish domain: the host without "www." and without any further subdomain. */
+function siteOf(hostname: string): string {
+  return hostname.replace(/^www\./, "").split(".").slice(-2).join(".");
+}
+
+async function crawlPage(page: Page, url: string): Promise<CrawledPage> {
+  console.log(`  [crawl-site] Navigating to ${url}`);
+  const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  if (response && response.status() >= 400) {
+    throw new Error(`HTTP ${response.status()}`);
+  }
+  await page.waitForTimeout(2000);
+  return {
+    title: await page.title(),
+    markdown: htmlToMarkdown(await extractMainHtml(page)),
+    entries: await findDatedEntries(page),
+    links: [...(await collectLinks(page, page.url())).values()],
+  };
+}
+
+export const crawlSite = meterTool(checkpointTool(createTool({
+  id: "crawl-site",
+  description:
+    "Crawls a competitor's changelog, blog, newsroom or docs release notes a few links deep and returns the dated entries it finds " +
+    "(title, date, summary, url), newest first — use it for recent product launches and announcements. Starts at startUrl and follows " +
+    "links on the same site breadth-first (announcement-like and pagination links first), up to maxDepth and maxPages, and stops early " +
+    `once maxEntries dated entries are found. Entries from the last ${RECENT_LAUNCH_DAYS} days are marked recent. ` +
+    "Each entry carries the sourceId of the page it was found on — cite it. sessionLost means the browser session failed mid-crawl " +
+    "and the entries are only what was found before that.",
+  inputSchema: z.object({
+    startUrl: z.string().url().describe("Where to start, e.g. https://example.com/changelog or https://example.com/blog"),
+    include: z.array(z.string()).optional().describe('Only follow links whose path matches one of these patterns, e.g. ["/blog/**", "/changelog*"]'),
+    exclude: z.array(z.string()).optional().describe('Never follow links whose path matches one of these patterns, e.g. ["/blog/tag/**"]'),
+    maxDepth: z.number().int().min(0).max(4).optional().describe(`Links to follow away from startUrl (default ${DEFAULT_MAX_DEPTH})`),
+    maxPages: z.number().int().min(1).max(30).optional().describe(`Pages to visit at most (default ${DEFAULT_MAX_PAGES})`),
+    maxEntries: z.number().int().min(1).max(50).optional().describe(`Stop once this many dated entries are found (default ${DEFAULT_MAX_ENTRIES})`),
+    sameOrigin: z
+      .boolean()
+      .optional()
+      .describe("true (default): stay on startUrl's exact origin; false: also follow links to its subdomains, e.g. docs. or blog."),
+  }),
+  execute: async ({ startUrl, include = [], exclude = [], maxDepth = DEFAULT_MAX_DEPTH, maxPages = DEFAULT_MAX_PAGES, maxEntries = DEFAULT_MAX_ENTRIES, sameOrigin = true }) => {
+    const start = new URL(startUrl);
+    const includes = include.map(globToRegex);
+    const excludes = exclude.map(globToRegex);
+    const key = (url: string) => url.split("#")[0].replace(/\/$/, "");
+    const allowed = (url: URL) =>
+      (sameOrigin ? url.origin === start.origin : siteOf(url.hostname) === siteOf(start.hostname) && url.protocol === start.protocol) &&
+      !NOT_A_PAGE.test(url.pathname) &&
+      (includes.length === 0 || includes.some((re) => re.test(url.pathname))) &&
+      !excludes.some((re) => re.test(url.pathname));
+
+    const queue: { url: string; depth: number; score: number }[] = [{ url: startUrl, depth: 0, score: 0 }];
+    const queued = new Set([key(startUrl)]);
+    const pages: { url: string; depth: number; entries: number; sourceId?: string }[] = [];
+    const entries = new Map<string, DatedEntry>();
+    const errors: string[] = [];
+    const cutoff = new Date(Date.now() - RECENT_LAUNCH_DAYS * 86400000).toISOString().slice(0, 10);
+    let stoppedBecause = "no more links to follow";
+    let sessionLost = false;
+
+    while (queue.length > 0) {
+      if (entries.size >= maxEntries) {
+        stoppedBecause = `found ${maxEntries} dated entries`;
+        break;
+      }
+      if (pages.length >= maxPages) {
+        stoppedBecause = `visited ${maxPages} pages`;
+        break;
+      }
+      const budget = overBudget();
+      if (budget) {
+        stoppedBecause = budget;
+        break;
+      }
+      // Shallowest first, then the most announcement-like
+      queue.sort((a, b) => a.depth - b.depth || b.score - a.score);
+      const { url, depth } = queue.shift()!;
+
+      let crawled = readCache<CrawledPage>("crawl-site", { url, ...authScope(url) });
+      if (crawled) {
+        console.log(`  [crawl-site] Cache hit for ${url}`);
+      } else if (isCacheOnly()) {
+        console.log(`  [crawl-site] Cache miss for ${url} (cache-only run)`);
+        errors.push(`${url}: not in cache — cache-only run`);
+        continue;
+      } else {
+        const robots = await checkRobots(url);
+        if (!robots.allowed) {
+          errors.push(`${url}: ${robots.reason} — page not visited`);
+          continue;
+        }
+        try {
+          crawled = await politely(url, () => withPage((page) => crawlPage(page, url)));
+          writeCache("crawl-site", { url, ...authScope(url) }, crawled);
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message.split("\n")[0] : String(err);
+          console.log(`  [crawl-site] Error on ${url}: ${message}`);
+          errors.push(`${url}: ${message}`);
+          // withPage already retried on a fresh session, so keep what was found rather than losing it all
+          if (isSessionError(err)) {
+            sessionLost = true;
+            stoppedBecause = `browser session lost — ${message}`;
+            break;
+          }
+          continue;
+        }
+      }
+
+      const dated = crawled.entries.flatMap((e) => {
+        const date = parseDate(e.dateText);
+        return date ? [{ ...e, date }] : [];
+      });
+      let sourceId: string | undefined;
+      if (dated.length > 0) {
+        const source = addSource(url, crawled.title, crawled.markdown);
+        snapshotPage(source);
+        sourceId = source.id;
+        for (const e of dated) {
+          const entryKey = `${e.date} ${e.title.toLowerCase()}`;
+          if (!entries.has(entryKey)) {
+            entries.set(entryKey, { title: e.title, date: e.date, summary: e.summary, url: e.url || url, sourceId, recent: e.date >= cutoff });
+          }
+        }
+      }
+      pages.push({ url, depth, entries: dated.length, sourceId });
+
+      if (depth < maxDepth) {
+        for (const link of crawled.links) {
+          let target: URL;
+          try {
+            target = new URL(link.url);
+          } catch {
+            continue;
+          }
+          const k = key(target.href);
+          if (queued.has(k) || !allowed(target)) continue;
+          queued.add(k);
+          queue.push({ url: target.href.split("#")[0], depth: depth + 1, score: ANNOUNCEMENT_HINT.test(`${target.pathname} ${link.text}`) ? 1 : 0 });
+        }
+      }
+    }
+
+    const sorted = [...entries.values()].sort((a, b) => b.date.localeCompare(a.date)).slice(0, maxEntries);
+    const recent = sorted.filter((e) => e.recent).length;
+    console.log(`  [crawl-site] ${pages.length} page(s), ${sorted.length} dated entr${sorted.length === 1 ? "y" : "ies"} (${recent} recent) — stopped: ${stoppedBecause}`);
+    return { startUrl, pages, entries: sorted, recentEntries: recent, recentSince: cutoff, stoppedBecause, sessionLost, errors };
+  },
+  // A crawl cut short by a lost session is retried in full on resume
+}), (result) => result.pages.length === 0 || result.sessionLost));
@@ -0,0 +1,190 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import zlib from "zlib";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { getRobots, politely, USER_AGENT } from "../politeness";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
+import { archivedFetch } from "../archive";
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_SITEMAPS = 25; // sitemap files fetched per site, indexes included
+const MAX_URLS = 50000; // stop collecting once a site has listed this many
+const FALLBACK_SITEMAPS = ["/sitemap.xml", "/sitemap_index.xml"];
+
+export interface SitemapEntry {
+  url: string;
+  lastmod: string | null;
+  /** Locale taken from hreflang alternates or a leading path segment like /de/ or /en-gb/ */
+  locale: string | null;
+}
+
+/**
+ * Fetches a URL as text, transparently gunzipping .gz sitemaps (whether or not
+ * the server set Content-Encoding).
+ */
+async function fetchText(url: string): Promise<string> {
+  const res = await archivedFetch(url, { headers: { "User-Agent": USER_AGENT }, redirect: "follow", signal: AbortSignal.timeout(20000) });
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status}`);
+  }
+  const buf = Buffer.from(await res.arrayBuffer());
+  // gzip magic bytes
+  if (buf[0] === 0x1f && buf[1] === 0x8b) {
+    return zlib.gunzipSync(buf).toString("utf-8");
+  }
+  return buf.toString("utf-8");
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+}
+
+function tag(block: string, name: string): string | null {
+  const m = block.match(new RegExp(`<(?:\\w+:)?${name}>([\\s\\S]*?)</(?:\\w+:)?${name}>`));
+  return m ? decodeXml(m[1]) : null;
+}
+
+function pathLocale(url: string): string | null {
+  try {
+    const first = new URL(url).pathname.split("/")[1] ?? "";
+    return /^[a-z]{2}([-_][a-zA-Z]{2})?$/.test(first) ? first.toLowerCase().replace("_", "-") : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts child sitemaps (from a <sitemapindex>) and page entries (from a <urlset>).
+ */
+function parseSitemap(xml: string): { children: string[]; entries: SitemapEntry[] } {
+  const children: string[] = [];
+  const entries: SitemapEntry[] = [];
+
+  for (const m of xml.matchAll(/<(?:\w+:)?sitemap>([\s\S]*?)<\/(?:\w+:)?sitemap>/g)) {
+    const loc = tag(m[1], "loc");
+    if (loc) children.push(loc);
+  }
+  for (const m of xml.matchAll(/<(?:\w+:)?url>([\s\S]*?)<\/(?:\w+:)?url>/g)) {
+    const loc = tag(m[1], "loc");
+    if (!loc) continue;
+    // <xhtml:link rel="alternate" hreflang="de" href="..."/> — the entry whose href is this loc names its locale
+    let locale: string | null = null;
+    for (const alt of m[1].matchAll(/<xhtml:link[^>]*hreflang="([^"]+)"[^>]*href="([^"]+)"/g)) {
+      if (decodeXml(alt[2]) === loc) locale = alt[1].toLowerCase();
+    }
+    entries.push({ url: loc, lastmod: tag(m[1], "lastmod"), locale: locale ?? pathLocale(loc) });
+  }
+  return { children, entries };
+}
+
+/**
+ * Turns a simple glob ("/pricing*", "/docs/**") into a RegExp over the URL path.
+ */
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*\*/g, "\u0000").replace(/\*/g, "[^/]*").replace(/\u0000/g, ".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Reads robots.txt for Sitemap: entries (falling back to /sitemap.xml) and walks
+ * every sitemap index it finds, collecting all listed page URLs.
+ */
+async function collectEntries(origin: string): Promise<{ sitemaps: string[]; entries: SitemapEntry[]; errors: string[] }> {
+  const errors: string[] = [];
+  const robots = await getRobots(origin);
+  if (robots.unreachable) {
+    errors.push(robots.unreachable);
+  }
+  let queue = [...robots.sitemaps];
+  if (queue.length === 0) {
+    queue = FALLBACK_SITEMAPS.map((p) => `${origin}${p}`);
+  }
+
+  const visited = new Set<string>();
+  const sitemaps: string[] = [];
+  const entries = new Map<string, SitemapEntry>();
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAPS && entries.size < MAX_URLS) {
+    const sitemapUrl = queue.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    try {
+      const { children, entries: found } = parseSitemap(await politely(sitemapUrl, () => fetchText(sitemapUrl)));
+      sitemaps.push(sitemapUrl);
+      queue.push(...children);
+      for (const e of found) {
+        if (!entries.has(e.url)) entries.set(e.url, e);
+      }
+    } catch (err) {
+      errors.push(`${sitemapUrl}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return { sitemaps, entries: Array.from(entries.values()).slice(0, MAX_URLS), errors };
+}
+
+export const discoverSitemap = meterTool(checkpointTool(createTool({
+  id: "discover-sitemap",
+  description:
+    "Finds a site's pages from its robots.txt Sitemap: entries and sitemap.xml files (including sitemap indexes and gzipped sitemaps), " +
+    "without loading any page in the browser. Returns URLs filtered by keyword, locale and path pattern, with lastmod dates. " +
+    "Use this when search-for-page returns 0 results, BEFORE falling back to explore-navigation.",
+  inputSchema: z.object({
+    baseUrl: z.string().url().describe("Any URL on the site — only its origin is used"),
+    keyword: z.string().optional().describe("Keep URLs whose path contains this keyword (case-insensitive), e.g. 'pricing'"),
+    locale: z.string().optional().describe("Keep URLs for this locale (e.g. 'en', 'de') plus URLs with no locale"),
+    pathPattern: z.string().optional().describe("Glob over the URL path, e.g. '/pricing*' or '/blog/**'"),
+    maxResults: z.number().optional().default(DEFAULT_MAX_RESULTS).describe("Maximum URLs to return (default 50)"),
+  }),
+  execute: async ({ baseUrl, keyword, locale, pathPattern, maxResults: rawMaxResults }) => {
+    const maxResults = rawMaxResults ?? DEFAULT_MAX_RESULTS;
+    const origin = new URL(baseUrl).origin;
+
+    let collected = readCache<{ sitemaps: string[]; entries: SitemapEntry[]; errors: string[] }>("discover-sitemap", { origin });
+    if (collected) {
+      console.log(`  [discover-sitemap] Cache hit for ${origin} → ${collected.entries.length} URL(s)`);
+    } else if (isCacheOnly()) {
+      console.log(`  [discover-sitemap] Cache miss for ${origin} (cache-only run)`);
+      return { baseUrl: origin, sitemaps: [], totalUrls: 0, matches: [] as SitemapEntry[], errors: ["Not in cache — cache-only run"] };
+    } else {
+      console.log(`  [discover-sitemap] Reading robots.txt and sitemaps for ${origin}`);
+      collected = await collectEntries(origin);
+      if (collected.entries.length > 0) {
+        writeCache("discover-sitemap", { origin }, collected);
+      }
+    }
+
+    const kw = keyword?.toLowerCase();
+    const loc = locale?.toLowerCase();
+    const pattern = pathPattern ? globToRegExp(pathPattern) : null;
+
+    const matches = collected.entries
+      .filter((e) => {
+        let pathname: string;
+        try {
+          pathname = new URL(e.url).pathname;
+        } catch {
+          return false;
+        }
+        if (kw && !pathname.toLowerCase().includes(kw)) return false;
+        if (pattern && !pattern.test(pathname)) return false;
+        if (loc && e.locale && !e.locale.startsWith(loc)) return false;
+        return true;
+      })
+      // Shallow paths first — /pricing beats /blog/2021/pricing-update
+      .sort((a, b) => new URL(a.url).pathname.split("/").length - new URL(b.url).pathname.split("/").length)
+      .slice(0, maxResults);
+
+    console.log(`  [discover-sitemap] ${collected.entries.length} URL(s) in ${collected.sitemaps.length} sitemap(s), ${matches.length} match(es)`);
+    return { baseUrl: origin, sitemaps: collected.sitemaps, totalUrls: collected.entries.length, matches, errors: collected.errors };
+  },
+}), (result) => result.totalUrls === 0 && result.errors.length > 0));
@@ -1,48 +1,102 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { getPage } from "../session";
-import type { Page } from "playwright";
+import { withPage, isSessionError } from "../session";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { authScope } from "../auth";
+import { checkRobots, politely } from "../politeness";
+import { dismissCookieBanners, collectLinks } from "../interactions";
+import type { LinkInfo } from "../interactions";
+import type { Locator, Page, Route } from "playwright";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
 
 const DEFAULT_MAX_LINKS = 50;
 
-export interface LinkInfo {
-  url: string;
-  text: string;
+// Each trigger opens a menu that may hold further triggers (a mega-menu's
+// columns, a mobile menu's accordions); they are followed this many levels deep.
+const MAX_DEPTH = 2;
+const MAX_TRIGGERS_PER_SELECTOR = 15;
+const MAX_NESTED_TRIGGERS = 8;
+// Hovers and clicks per page, so a huge menu can't eat the whole run
+const MAX_INTERACTIONS = 60;
+// Script-only links clicked to see where they go
+const MAX_PROBES = 6;
+
+// Menus that open when a nav item is hovered
+const HOVER_TRIGGERS = [
+  "nav > ul > li",
+  "nav > div > ul > li",
+  '[role="navigation"] > ul > li',
+  "header nav li",
+  '.navbar li:has(ul), .navbar li:has([class*="dropdown"])',
+  '[class*="nav"] > ul > li',
+  "nav button",
+  "header button",
+];
+
+// Menus that open on click: disclosure buttons and popup triggers
+const CLICK_TRIGGERS = [
+  'nav [aria-expanded="false"]',
+  'header [aria-expanded="false"]',
+  '[role="navigation"] [aria-expanded="false"]',
+  'nav [aria-haspopup]:not([aria-haspopup="false"])',
+  'header [aria-haspopup]:not([aria-haspopup="false"])',
+  "nav details > summary",
+  "header details > summary",
+];
+
+// Inside an opened menu: what might open a further level
+const NESTED_TRIGGERS =
+  '[aria-expanded="false"], [aria-haspopup]:not([aria-haspopup="false"]), [role="tab"][aria-selected="false"], details > summary, li:has(> ul)';
+
+const HAMBURGER_TRIGGERS = [
+  'button[aria-label*="menu" i]',
+  'button[aria-label*="navigation" i]',
+  '[class*="hamburger"]',
+  '[class*="menu-toggle"]',
+  '[class*="mobile-menu"]',
+  '[class*="nav-toggle"]',
+  "button:has(.hamburger)",
+  'button[class*="burger"]',
+  '[aria-controls*="nav"]',
+  '[aria-controls*="menu"]',
+];
+
+export interface NavLink extends LinkInfo {
+  /** The interactions that revealed the link, e.g. "click: Products > hover: Developers", or "page load" */
+  revealedBy: string;
 }
 
 export interface Section {
   label: string;
-  links: LinkInfo[];
+  links: NavLink[];
 }
 
-/**
- * Extracts all visible <a> links from the current page state.
- * Runs inside the browser context via page.evaluate.
- */
-async function collectLinks(page: Page, baseUrl: string): Promise<Map<string, LinkInfo>> {
-  const raw = await page.evaluate(() => {
-    const anchors = Array.from((globalThis as any).document.querySelectorAll("a[href]") as any[]);
-    return anchors.map((a: any) => ({
-      href: (a.getAttribute("href") as string) || "",
-      text: ((a.textContent as string) || "").trim().replace(/\s+/g, " "),
-    }));
-  }) as { href: string; text: string }[];
-
-  const map = new Map<string, LinkInfo>();
-  for (const { href, text } of raw) {
-    if (href.startsWith("javascript:") || href.startsWith("mailto:") || href.startsWith("tel:") || href === "#") continue;
-    try {
-      const resolved = new URL(href, baseUrl).href;
-      if (!map.has(resolved)) {
-        map.set(resolved, { url: resolved, text: text.slice(0, 120) });
-      }
-    } catch {
-      // skip malformed hrefs
-    }
-  }
-  return map;
+export interface ExploreResult {
+  url: string;
+  totalLinksFound: number;
+  sections: Section[];
+  errors: string[];
+}
+
+type Action = "hover" | "click";
+
+/** State of one page's exploration. */
+interface Exploration {
+  page: Page;
+  url: string;
+  maxLinks: number;
+  sections: Section[];
+  /** URLs already reported, so each link is listed once — under the interaction that first revealed it */
+  reported: Set<string>;
+  totalLinksFound: number;
+  interactions: number;
+  /** Triggers tagged so far (see markTriggers) */
+  marked: number;
 }
 
+const MARK = "data-masteel-trigger";
+
 /**
  * Returns links present in `after` that were not in `before`.
  */
@@ -56,41 +110,219 @@ function diffLinks(before: Map<string, LinkInfo>, after: Map<string, LinkInfo>):
   return newLinks;
 }
 
+function isFull(x: Exploration): boolean {
+  return x.totalLinksFound >= x.maxLinks;
+}
+
+/**
+ * Adds links not reported yet to the named section, up to the link limit.
+ */
+function report(x: Exploration, label: string, links: LinkInfo[], revealedBy: string) {
+  const fresh = links.filter((l) => !x.reported.has(l.url)).slice(0, x.maxLinks - x.totalLinksFound);
+  if (fresh.length === 0) return;
+  for (const l of fresh) x.reported.add(l.url);
+  let section = x.sections.find((s) => s.label === label);
+  if (!section) {
+    section = { label, links: [] };
+    x.sections.push(section);
+  }
+  section.links.push(...fresh.map((l) => ({ ...l, revealedBy })));
+  x.totalLinksFound += fresh.length;
+}
+
+/**
+ * A short name for a trigger. A menu item's own link or button is preferred
+ * over its text as a whole, which would include the submenu it opens.
+ */
+async function labelOf(target: Locator, fallback: string): Promise<string> {
+  const own = target.locator(":scope > a, :scope > button, :scope > span").first();
+  const ownText = (await own.count().catch(() => 0)) > 0 ? await own.textContent({ timeout: 1000 }).catch(() => null) : null;
+  const text = (ownText?.trim() || (await target.textContent({ timeout: 1000 }).catch(() => null)))?.trim().replace(/\s+/g, " ");
+  const aria = await target.getAttribute("aria-label", { timeout: 1000 }).catch(() => null);
+  return (text || aria || fallback).slice(0, 50);
+}
+
 /**
- * Attempt to dismiss common cookie/consent banners so they don't block nav interactions.
+ * The element a trigger opens: the one its aria-controls names, otherwise the
+ * nearest list item or parent around it.
  */
-async function dismissCookieBanners(page: Page): Promise<void> {
-  const selectors = [
-    'button:has-text("Accept")',
-    'button:has-text("Accept All")',
-    'button:has-text("Accept all")',
-    'button:has-text("Got it")',
-    'button:has-text("I agree")',
-    'button:has-text("OK")',
-    '[id*="cookie"] button',
-    '[class*="cookie"] button',
-    '[id*="consent"] button',
-    '[class*="consent"] button',
-  ];
-
-  for (const sel of selectors) {
+async function panelOf(page: Page, target: Locator): Promise<Locator> {
+  const controls = await target.getAttribute("aria-controls", { timeout: 1000 }).catch(() => null);
+  if (controls) {
+    return page.locator(`[id="${controls.replace(/["\\]/g, "\\$&")}"]`);
+  }
+  const item = target.locator("xpath=ancestor-or-self::li[1]");
+  return (await item.count()) > 0 ? item : target.locator("xpath=..");
+}
+
+/**
+ * Tags up to `limit` elements matching `candidates` that aren't tagged yet and
+ * returns a locator for each. Opening a menu flips aria-expanded and changes
+ * what a selector matches, so triggers are pinned down before any is touched —
+ * and one already tried is never picked up again at a deeper level.
+ */
+async function markTriggers(x: Exploration, candidates: Locator, limit: number): Promise<Locator[]> {
+  const handles = await candidates.elementHandles().catch(() => []);
+  const targets: Locator[] = [];
+  for (const handle of handles) {
+    if (targets.length >= limit) break;
+    const id = `t${x.marked + 1}`;
+    const tagged = await handle
+      .evaluate((el: any, [attr, value]: string[]) => {
+        if (el.hasAttribute(attr)) return false;
+        el.setAttribute(attr, value);
+        return true;
+      }, [MARK, id])
+      .catch(() => false);
+    if (tagged) {
+      x.marked++;
+      targets.push(x.page.locator(`[${MARK}="${id}"]`));
+    }
+  }
+  await Promise.all(handles.map((h) => h.dispose().catch(() => {})));
+  return targets;
+}
+
+/** Disclosure-style elements are clicked; anything else is hovered. */
+async function actionFor(target: Locator): Promise<Action> {
+  const clickable = await target
+    .evaluate((el: any) => el.hasAttribute("aria-expanded") || el.hasAttribute("aria-haspopup") || el.getAttribute("role") === "tab" || el.tagName === "SUMMARY")
+    .catch(() => false);
+  return clickable ? "click" : "hover";
+}
+
+/**
+ * Hovers or clicks `target`, reports the links that appear, then follows the
+ * triggers inside what opened — so a link can be labelled with the whole path
+ * to it, e.g. "click: Products > hover: Developers".
+ */
+async function reveal(x: Exploration, target: Locator, action: Action, path: string[], section: string | null, depth: number): Promise<void> {
+  if (isFull(x) || x.interactions >= MAX_INTERACTIONS) return;
+  if (!(await target.isVisible({ timeout: 500 }).catch(() => false))) return;
+
+  const label = await labelOf(target, action === "click" ? "Menu" : "Item");
+  const trail = [...path, `${action}: ${label}`];
+  x.interactions++;
+
+  const before = await collectLinks(x.page, x.url);
+  if (action === "hover") {
+    await target.hover({ timeout: 2000 });
+    await x.page.waitForTimeout(800); // wait for dropdown animation
+  } else {
+    // Some menu triggers are links too; the click must open the menu, not leave the page
+    const destination = await captureNavigation(x.page, () => target.click({ timeout: 3000 }));
+    if (destination) {
+      report(x, section ?? `Dropdown: ${label}`, [{ url: destination, text: label }], trail.join(" > "));
+      return;
+    }
+  }
+  const after = await collectLinks(x.page, x.url);
+  report(x, section ?? `Dropdown: ${label}`, diffLinks(before, after), trail.join(" > "));
+
+  if (depth + 1 >= MAX_DEPTH || isFull(x)) return;
+  const panel = await panelOf(x.page, target);
+  const nested = await markTriggers(x, panel.locator(NESTED_TRIGGERS), MAX_NESTED_TRIGGERS);
+  for (const item of nested) {
     try {
-      const btn = page.locator(sel).first();
-      if (await btn.isVisible({ timeout: 500 })) {
-        await btn.click({ timeout: 1000 });
-        await page.waitForTimeout(500);
-        return; // dismissed one, that's usually enough
-      }
-    } catch {
-      // ignore — banner may not exist
+      await reveal(x, item, await actionFor(item), trail, section ?? `Dropdown: ${label}`, depth + 1);
+    } catch (err) {
+      if (isSessionError(err)) throw err;
+      // individual interaction failed — continue with the next one
+    }
+  }
+}
+
+/** Closes whatever a trigger opened before the next one is tried. */
+async function closeMenus(page: Page, target: Locator) {
+  if ((await target.getAttribute("aria-expanded", { timeout: 500 }).catch(() => null)) === "true") {
+    await target.click({ timeout: 1000 }).catch(() => {});
+  }
+  await page.keyboard.press("Escape").catch(() => {});
+  await page.mouse.move(0, 0).catch(() => {});
+  await page.waitForTimeout(300);
+}
+
+/**
+ * Runs `act` and reports where it tried to navigate, without leaving the page:
+ * a page load in the main frame is caught and aborted, a popup is closed, and a
+ * client-side route change (history.pushState) is undone with a back step.
+ */
+async function captureNavigation(page: Page, act: () => Promise<void>): Promise<string | null> {
+  const start = page.url();
+  // An in-page anchor (#menu) is not navigation
+  const moved = () => page.url().split("#")[0] !== start.split("#")[0];
+  let target: string | null = null;
+  const handler = async (route: Route) => {
+    const request = route.request();
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+      target ??= request.url();
+      await route.abort();
+    } else {
+      // Other requests go on to any context routes (e.g. --replay)
+      await route.fallback();
+    }
+  };
+  const onPopup = (popup: Page) => {
+    if (popup.url() !== "about:blank") target ??= popup.url();
+    void popup.close().catch(() => {});
+  };
+
+  await page.route("**/*", handler);
+  page.on("popup", onPopup);
+  try {
+    await act();
+    await page.waitForTimeout(1500);
+  } finally {
+    page.off("popup", onPopup);
+    await page.unroute("**/*", handler).catch(() => {});
+  }
+
+  if (moved()) {
+    target ??= page.url();
+    await page.goBack({ waitUntil: "domcontentloaded", timeout: 10000 }).catch(() => null);
+    if (moved()) {
+      await page.goto(start, { waitUntil: "domcontentloaded", timeout: 30000 });
+      await page.waitForTimeout(1500);
+    }
+  }
+  return target;
+}
+
+/**
+ * Clicks elements that navigate from script without a target readable in the
+ * markup (`role="link"`, onclick handlers calling a router) to learn where they go.
+ */
+async function probeScriptedLinks(x: Exploration) {
+  const candidates = x.page.locator('[role="link"]:not(a), [onclick]:not(a)');
+  const count = Math.min(await candidates.count().catch(() => 0), 30);
+  let probes = 0;
+  for (let i = 0; i < count && probes < MAX_PROBES && !isFull(x); i++) {
+    const el = candidates.nth(i);
+    try {
+      if (!(await el.isVisible({ timeout: 500 }))) continue;
+      // collectLinks already read the ones with a data-href or a literal URL in onclick
+      const readable = await el.evaluate((e: any) => !!(e.getAttribute("data-href") || e.getAttribute("data-url") || e.getAttribute("data-link") || e.getAttribute("href")));
+      if (readable) continue;
+
+      const label = await labelOf(el, "Link");
+      const source = (await el.getAttribute("role")) === "link" ? "role=link" : "onclick";
+      probes++;
+      const destination = await captureNavigation(x.page, () => el.click({ timeout: 2000 }));
+      if (!destination) continue;
+      report(x, "Scripted Links", [{ url: new URL(destination, x.url).href, text: label, source }], `click: ${label}`);
+    } catch (err) {
+      if (isSessionError(err)) throw err;
+      // element detached or not clickable — try the next one
     }
   }
 }
 
-export const exploreNavigation = createTool({
+export const exploreNavigation = meterTool(checkpointTool(createTool({
   id: "explore-navigation",
   description:
-    "Explores a website's navigation by hovering over menus and clicking hamburger buttons to discover links hidden behind JavaScript interactions. " +
+    "Explores a website's navigation like a visitor: hovers menu items, clicks menu buttons that open on click (including nested mega-menu levels) " +
+    "and hamburger buttons, and follows script-driven links (role=\"link\", onclick) to see where they go. Also reads links inside web components (shadow DOM) " +
+    "and same-origin iframes. Each link says which interactions revealed it, e.g. \"click: Products > hover: Developers\". " +
     "Use this as a FALLBACK when search-for-page returns 0 results — it's slower but can find links that aren't in the static HTML.",
   inputSchema: z.object({
     url: z.string().url().describe("The URL to explore for navigation links"),
@@ -98,210 +330,110 @@ export const exploreNavigation = createTool({
   }),
   execute: async ({ url, maxLinks: rawMaxLinks }) => {
     const maxLinks = rawMaxLinks ?? DEFAULT_MAX_LINKS;
-    const page = await getPage();
-    const errors: string[] = [];
-    const sections: Section[] = [];
-    let totalLinksFound = 0;
-
-    try {
-      console.log(`  [explore-navigation] Navigating to ${url}`);
-      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
-      await page.waitForTimeout(2000);
-
-      // Try to dismiss cookie banners first
-      await dismissCookieBanners(page);
-
-      // --- Step 1: Collect baseline static links ---
-      const baseline = await collectLinks(page, url);
-
-      // --- Step 2: Collect primary nav links (static) ---
-      const navSelectors = [
-        "nav a",
-        '[role="navigation"] a',
-        "header a",
-        "header ul a",
-        ".navbar a",
-        ".nav a",
-        '[class*="nav"] a',
-      ];
-
-      const primaryNavLinks = new Map<string, LinkInfo>();
-      for (const sel of navSelectors) {
-        try {
-          const raw = await page.evaluate((selector: string) => {
-            const anchors = Array.from((globalThis as any).document.querySelectorAll(selector) as any[]);
-            return anchors.map((a: any) => ({
-              href: (a.getAttribute("href") as string) || "",
-              text: ((a.textContent as string) || "").trim().replace(/\s+/g, " "),
-            }));
-          }, sel) as { href: string; text: string }[];
-
-          for (const { href, text } of raw) {
-            if (href.startsWith("javascript:") || href.startsWith("mailto:") || href.startsWith("tel:") || href === "#") continue;
-            try {
-              const resolved = new URL(href, url).href;
-              if (!primaryNavLinks.has(resolved)) {
-                primaryNavLinks.set(resolved, { url: resolved, text: text.slice(0, 120) });
-              }
-            } catch { /* skip */ }
-          }
-        } catch { /* selector not found, that's fine */ }
-      }
-
-      if (primaryNavLinks.size > 0) {
-        const links = Array.from(primaryNavLinks.values()).slice(0, maxLinks);
-        sections.push({ label: "Primary Nav", links });
-        totalLinksFound += links.length;
-      }
-
-      // --- Step 3: Hover over nav items to reveal dropdowns ---
-      const hoverTargetSelectors = [
-        "nav > ul > li",
-        "nav > div > ul > li",
-        '[role="navigation"] > ul > li',
-        "header nav li",
-        '.navbar li:has(ul), .navbar li:has([class*="dropdown"])',
-        '[class*="nav"] > ul > li',
-        'nav button',
-        'header button',
-      ];
-
-      for (const sel of hoverTargetSelectors) {
-        try {
-          const items = page.locator(sel);
-          const count = await items.count();
-          if (count === 0) continue;
-
-          for (let i = 0; i < Math.min(count, 15); i++) {
-            if (totalLinksFound >= maxLinks) break;
 
-            try {
-              const item = items.nth(i);
-              const itemText = (await item.textContent({ timeout: 1000 }))?.trim().replace(/\s+/g, " ").slice(0, 50) || `Item ${i}`;
+    // Versioned: entries cached before links carried revealedBy would come back without it
+    const cacheKey = { url, maxLinks, version: 2, ...authScope(url) };
+    const cached = readCache<ExploreResult>("explore-navigation", cacheKey);
+    if (cached) {
+      console.log(`  [explore-navigation] Cache hit for ${url} → ${cached.totalLinksFound} links`);
+      return cached;
+    }
+    if (isCacheOnly()) {
+      console.log(`  [explore-navigation] Cache miss for ${url} (cache-only run)`);
+      return { url, totalLinksFound: 0, sections: [], errors: ["Not in cache — cache-only run"] };
+    }
 
-              const beforeHover = await collectLinks(page, url);
-              await item.hover({ timeout: 2000 });
-              await page.waitForTimeout(800); // wait for dropdown animation
+    const robots = await checkRobots(url);
+    if (!robots.allowed) {
+      return { url, totalLinksFound: 0, sections: [], errors: [`${robots.reason} — page not visited`] };
+    }
 
-              const afterHover = await collectLinks(page, url);
-              const revealed = diffLinks(beforeHover, afterHover);
+    try {
+      const result = await politely(url, () => withPage(async (page): Promise<ExploreResult> => {
+        const errors: string[] = [];
+        const x: Exploration = { page, url, maxLinks, sections: [], reported: new Set(), totalLinksFound: 0, interactions: 0, marked: 0 };
 
-              if (revealed.length > 0) {
-                const remaining = maxLinks - totalLinksFound;
-                const links = revealed.slice(0, remaining);
-                sections.push({ label: `Dropdown: ${itemText}`, links });
-                totalLinksFound += links.length;
+        try {
+          console.log(`  [explore-navigation] Navigating to ${url}`);
+          await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+          await page.waitForTimeout(2000);
+
+          // Try to dismiss cookie banners first
+          await dismissCookieBanners(page);
+
+          // --- Step 1: Primary nav links present from the start ---
+          const baseline = await collectLinks(page, url);
+          const navLinks = [...baseline.values()].filter((l) => l.area === "nav" || l.area === "header");
+          report(x, "Primary Nav", navLinks, "page load");
+
+          // --- Step 2: Menus that open on click, then menus that open on hover ---
+          for (const [selectors, action] of [[CLICK_TRIGGERS, "click"], [HOVER_TRIGGERS, "hover"]] as const) {
+            for (const sel of selectors) {
+              if (isFull(x) || x.interactions >= MAX_INTERACTIONS) break;
+              for (const item of await markTriggers(x, page.locator(sel), MAX_TRIGGERS_PER_SELECTOR)) {
+                try {
+                  await reveal(x, item, action, [], null, 0);
+                } catch (err) {
+                  if (isSessionError(err)) throw err;
+                  // individual hover or click failed — continue to next item
+                } finally {
+                  if (action === "click") await closeMenus(page, item);
+                }
               }
-            } catch {
-              // individual hover failed — continue to next item
             }
           }
-        } catch {
-          // selector didn't match — try next
-        }
-        if (totalLinksFound >= maxLinks) break;
-      }
 
-      // --- Step 4: Find and click hamburger / mobile menu buttons ---
-      const hamburgerSelectors = [
-        'button[aria-label*="menu" i]',
-        'button[aria-label*="Menu" i]',
-        'button[aria-label*="navigation" i]',
-        '[class*="hamburger"]',
-        '[class*="menu-toggle"]',
-        '[class*="mobile-menu"]',
-        '[class*="nav-toggle"]',
-        'button:has(.hamburger)',
-        'button[class*="burger"]',
-        '[aria-controls*="nav"]',
-        '[aria-controls*="menu"]',
-      ];
-
-      for (const sel of hamburgerSelectors) {
-        if (totalLinksFound >= maxLinks) break;
-
-        try {
-          const btn = page.locator(sel).first();
-          const isVisible = await btn.isVisible({ timeout: 1000 });
-          if (!isVisible) continue;
-
-          const beforeClick = await collectLinks(page, url);
-          await btn.click({ timeout: 3000 });
-          await page.waitForTimeout(1500); // wait for menu animation
-
-          const afterClick = await collectLinks(page, url);
-          const revealed = diffLinks(beforeClick, afterClick);
-
-          if (revealed.length > 0) {
-            const remaining = maxLinks - totalLinksFound;
-            const links = revealed.slice(0, remaining);
-            sections.push({ label: "Mobile/Hamburger Menu", links });
-            totalLinksFound += links.length;
+          // --- Step 3: Find and click one hamburger / mobile menu button ---
+          for (const sel of HAMBURGER_TRIGGERS) {
+            if (isFull(x)) break;
+            const btn = page.locator(sel).first();
+            if (!(await btn.isVisible({ timeout: 1000 }).catch(() => false))) continue;
+            try {
+              await reveal(x, btn, "click", [], "Mobile/Hamburger Menu", 0);
+            } catch (err) {
+              if (isSessionError(err)) throw err;
+            } finally {
+              await closeMenus(page, btn);
+            }
+            break; // only click one hamburger button
           }
 
-          // Try to close the menu again
-          try {
-            await btn.click({ timeout: 1000 });
-            await page.waitForTimeout(500);
-          } catch { /* ignore */ }
-
-          break; // only click one hamburger button
-        } catch {
-          // this selector didn't work — try next
-        }
-      }
-
-      // --- Step 5: Scroll to footer and collect footer nav links ---
-      if (totalLinksFound < maxLinks) {
-        try {
-          await page.evaluate(() => (globalThis as any).window.scrollTo(0, (globalThis as any).document.body.scrollHeight));
-          await page.waitForTimeout(1500);
-
-          const footerLinks = new Map<string, LinkInfo>();
-          const footerSelectors = ["footer a", '[role="contentinfo"] a', '[class*="footer"] a'];
+          // --- Step 4: Elements that navigate from script ---
+          await probeScriptedLinks(x);
 
-          for (const sel of footerSelectors) {
+          // --- Step 5: Scroll to footer and collect footer nav links ---
+          if (!isFull(x)) {
             try {
-              const raw = await page.evaluate((selector: string) => {
-                const anchors = Array.from((globalThis as any).document.querySelectorAll(selector) as any[]);
-                return anchors.map((a: any) => ({
-                  href: (a.getAttribute("href") as string) || "",
-                  text: ((a.textContent as string) || "").trim().replace(/\s+/g, " "),
-                }));
-              }, sel) as { href: string; text: string }[];
-
-              for (const { href, text } of raw) {
-                if (href.startsWith("javascript:") || href.startsWith("mailto:") || href.startsWith("tel:") || href === "#") continue;
-                try {
-                  const resolved = new URL(href, url).href;
-                  if (!footerLinks.has(resolved) && !primaryNavLinks.has(resolved)) {
-                    footerLinks.set(resolved, { url: resolved, text: text.slice(0, 120) });
-                  }
-                } catch { /* skip */ }
-              }
-            } catch { /* selector not found */ }
+              await page.evaluate(() => (globalThis as any).window.scrollTo(0, (globalThis as any).document.body.scrollHeight));
+              await page.waitForTimeout(1500);
+              const all = await collectLinks(page, url);
+              report(x, "Footer", [...all.values()].filter((l) => l.area === "footer"), "scroll: footer");
+            } catch (err) {
+              if (isSessionError(err)) throw err;
+              errors.push(`Footer scroll failed: ${err instanceof Error ? err.message : String(err)}`);
+            }
           }
 
-          if (footerLinks.size > 0) {
-            const remaining = maxLinks - totalLinksFound;
-            const links = Array.from(footerLinks.values()).slice(0, remaining);
-            sections.push({ label: "Footer", links });
-            totalLinksFound += links.length;
-          }
-        } catch (err) {
-          errors.push(`Footer scroll failed: ${err instanceof Error ? err.message : String(err)}`);
+          console.log(`  [explore-navigation] Found ${x.totalLinksFound} links in ${x.sections.length} section(s) after ${x.interactions} interaction(s)`);
+          return { url, totalLinksFound: x.totalLinksFound, sections: x.sections, errors };
+        } catch (err: unknown) {
+          // A dead browser/session is retried on a fresh one by withPage()
+          if (isSessionError(err)) throw err;
+          const message = err instanceof Error ? err.message : String(err);
+          console.log(`  [explore-navigation] Error on ${url}: ${message}`);
+          errors.push(message);
+          return { url, totalLinksFound: x.totalLinksFound, sections: x.sections, errors };
         }
+      }));
+      // Partial results are worth keeping; a run that found nothing is retried next time
+      if (result.totalLinksFound > 0) {
+        writeCache("explore-navigation", cacheKey, result);
       }
-
-      console.log(`  [explore-navigation] Found ${totalLinksFound} links in ${sections.length} section(s)`);
-      return { url, totalLinksFound, sections, errors };
+      return result;
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err);
       console.log(`  [explore-navigation] Error on ${url}: ${message}`);
-      errors.push(message);
-      return { url, totalLinksFound, sections, errors };
-    } finally {
-      await page.close();
+      return { url, totalLinksFound: 0, sections: [], errors: [message] };
     }
   },
-});
+}), (result) => result.sections.length === 0 && result.errors.length > 0));
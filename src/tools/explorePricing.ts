@@ -0,0 +1,321 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import type { Page } from "playwright";
+import { withPage, isSessionError } from "../session";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { authScope } from "../auth";
+import { checkRobots, politely } from "../politeness";
+import { dismissCookieBanners } from "../interactions";
+import { htmlToMarkdown, extractMainHtml, outline, chunkAt, findSection, CHUNK_CHARS } from "../markdown";
+import { addSource } from "../sources";
+import { snapshotPage } from "../runs";
+import { shortDiff } from "../history/textDiff";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
+
+const MAX_VARIANTS = 6;
+const MAX_OUTLINE = 60;
+const MAX_CHANGED_LINES = 60; // later variants return just what differs from the first
+const MAX_EXPAND_CLICKS = 10;
+
+// Marker attribute set on candidate controls inside the page, so Playwright can click them by ID
+const CTL_ATTR = "data-masteel-ctl";
+
+interface ControlOption {
+  /** Value of the marker attribute, or the <option> value for selects */
+  id: string;
+  label: string;
+  kind: "click" | "select" | "switch-off" | "switch-on";
+  /** For kind "select": the marker ID of the <select> element */
+  selectId?: string;
+}
+
+interface PricingControls {
+  billing: ControlOption[];
+  currency: ControlOption[];
+  expand: { id: string; label: string }[];
+}
+
+interface CapturedVariant {
+  label: string;
+  markdown: string;
+}
+
+interface PricingCapture {
+  title: string;
+  controls: { billing: string[]; currency: string[]; expanded: string[] };
+  variants: CapturedVariant[];
+  errors: string[];
+}
+
+// Pages captured this run, so reading further chunks never re-navigates (even with --refresh)
+const loaded = new Map<string, PricingCapture>();
+
+/**
+ * Finds billing-period toggles, currency selectors and expand/"compare all"
+ * controls on the page and tags each with a marker attribute.
+ * Runs inside the browser context via page.evaluate.
+ */
+async function findControls(page: Page): Promise<PricingControls> {
+  return (await page.evaluate((attr: string) => {
+    const doc = (globalThis as any).document;
+    const BILLING = /\b(monthly|annual(ly)?|yearly|per month|per year|month|year)\b/i;
+    const CURRENCY = /^(USD|EUR|GBP|CAD|AUD|NZD|JPY|INR|CHF|SEK|NOK|DKK|PLN|BRL|MXN|SGD)\b|^[$€£¥₹]\s*[A-Z]{0,3}$/i;
+    const EXPAND = /compare (all|plans|features)|(show|see|view) (all|full|more|every) (plan )?(features|comparison|details)|full comparison|expand/i;
+
+    let n = 0;
+    const mark = (el: any) => {
+      const id = `ctl-${n++}`;
+      el.setAttribute(attr, id);
+      return id;
+    };
+    const visible = (el: any) => {
+      const r = el.getBoundingClientRect();
+      return r.width > 0 && r.height > 0;
+    };
+    const textOf = (el: any) => ((el.textContent as string) || el.getAttribute("aria-label") || "").trim().replace(/\s+/g, " ");
+
+    const billing: any[] = [];
+    const currency: any[] = [];
+    const expand: any[] = [];
+    const seen = new Set<string>();
+
+    const clickables = Array.from(
+      doc.querySelectorAll('button, [role="tab"], [role="radio"], [role="switch"], [role="button"], label, input[type="checkbox"], summary') as any[],
+    );
+    for (const el of clickables) {
+      if (!visible(el)) continue;
+      const text = textOf(el);
+      if (!text || text.length > 40) continue;
+      const key = text.toLowerCase();
+
+      if (BILLING.test(text)) {
+        const isSwitch = el.getAttribute("role") === "switch" || (el.tagName === "INPUT" && el.type === "checkbox");
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const id = mark(el);
+        if (isSwitch) {
+          billing.push({ id, label: `${text}: off`, kind: "switch-off" }, { id, label: `${text}: on`, kind: "switch-on" });
+        } else {
+          billing.push({ id, label: text, kind: "click" });
+        }
+      } else if (CURRENCY.test(text) && !seen.has(key)) {
+        seen.add(key);
+        currency.push({ id: mark(el), label: text, kind: "click" });
+      } else if (EXPAND.test(text) && !seen.has(key)) {
+        seen.add(key);
+        expand.push({ id: mark(el), label: text });
+      }
+    }
+
+    for (const sel of Array.from(doc.querySelectorAll("select") as any[])) {
+      const options = Array.from(sel.options as any[]).map((o: any) => ({ value: o.value as string, label: ((o.textContent as string) || "").trim() }));
+      const currencyOptions = options.filter((o) => CURRENCY.test(o.label) || CURRENCY.test(o.value));
+      if (currencyOptions.length >= 2 && visible(sel)) {
+        const selectId = mark(sel);
+        for (const o of currencyOptions.slice(0, 4)) {
+          currency.push({ id: o.value, label: o.label, kind: "select", selectId });
+        }
+        break; // one currency selector is enough
+      }
+    }
+
+    return { billing: billing.slice(0, 4), currency: currency.slice(0, 4), expand };
+  }, CTL_ATTR)) as PricingControls;
+}
+
+/**
+ * Clicks a control; if the click navigated to another page, goes back.
+ */
+async function clickControl(page: Page, id: string): Promise<void> {
+  const before = page.url().split("#")[0];
+  await page.locator(`[${CTL_ATTR}="${id}"]`).first().click({ timeout: 3000 });
+  await page.waitForTimeout(800); // wait for prices to re-render
+  if (page.url().split("#")[0] !== before) {
+    await page.goBack({ waitUntil: "domcontentloaded", timeout: 15000 });
+    await page.waitForTimeout(1000);
+  }
+}
+
+async function applyOption(page: Page, option: ControlOption): Promise<void> {
+  const locator = page.locator(`[${CTL_ATTR}="${option.selectId ?? option.id}"]`).first();
+  if (option.kind === "select") {
+    await locator.selectOption(option.id, { timeout: 3000 });
+    await page.waitForTimeout(800);
+  } else if (option.kind === "switch-off" || option.kind === "switch-on") {
+    const want = option.kind === "switch-on";
+    const checked = (await locator.getAttribute("aria-checked")) === "true" || (await locator.isChecked().catch(() => false));
+    if (checked !== want) {
+      await clickControl(page, option.id);
+    }
+  } else {
+    await clickControl(page, option.id);
+  }
+}
+
+/**
+ * Expands every comparison section, then captures the page once per
+ * billing × currency combination (capped at MAX_VARIANTS).
+ */
+async function capturePricing(page: Page, url: string): Promise<PricingCapture> {
+  const errors: string[] = [];
+
+  console.log(`  [explore-pricing] Navigating to ${url}`);
+  await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  await page.waitForTimeout(2000);
+  await dismissCookieBanners(page);
+
+  const controls = await findControls(page);
+
+  // Expand accordions and "compare all features" tables so every variant includes them
+  const expanded: string[] = [];
+  await page.evaluate(() => {
+    for (const d of Array.from((globalThis as any).document.querySelectorAll("details") as any[])) d.open = true;
+  });
+  for (const ctl of controls.expand.slice(0, MAX_EXPAND_CLICKS)) {
+    try {
+      await clickControl(page, ctl.id);
+      expanded.push(ctl.label);
+    } catch (err) {
+      if (isSessionError(err)) throw err;
+      errors.push(`Expand "${ctl.label}" failed`);
+    }
+  }
+
+  const billing: (ControlOption | null)[] = controls.billing.length > 0 ? controls.billing : [null];
+  const currency: (ControlOption | null)[] = controls.currency.length > 0 ? controls.currency : [null];
+  const variants: CapturedVariant[] = [];
+
+  for (const cur of currency) {
+    for (const bill of billing) {
+      if (variants.length >= MAX_VARIANTS) break;
+      const label = [bill?.label ?? "default billing", cur?.label ?? "default currency"].join(" / ");
+      try {
+        if (cur) await applyOption(page, cur);
+        if (bill) await applyOption(page, bill);
+        variants.push({ label, markdown: htmlToMarkdown(await extractMainHtml(page)) });
+      } catch (err) {
+        if (isSessionError(err)) throw err;
+        errors.push(`Variant "${label}" failed: ${err instanceof Error ? err.message.split("\n")[0] : String(err)}`);
+      }
+    }
+  }
+
+  console.log(`  [explore-pricing] ${variants.length} variant(s) — ${controls.billing.length} billing, ${controls.currency.length} currency, ${expanded.length} expanded`);
+  return {
+    title: await page.title(),
+    controls: {
+      billing: controls.billing.map((c) => c.label),
+      currency: controls.currency.map((c) => c.label),
+      expanded,
+    },
+    variants,
+    errors,
+  };
+}
+
+/**
+ * The chunk of a variant's markdown starting at `section` or `offset`, with the
+ * outline on the first chunk — the same paging scrape-url offers.
+ */
+function readVariant(markdown: string, section?: string, offset?: number) {
+  const headings = outline(markdown);
+  let start = offset ?? 0;
+  if (section) {
+    const match = findSection(headings, section);
+    if (!match) {
+      return {
+        content: `No heading matching "${section}" — pick one from the outline`,
+        outline: headings.slice(0, MAX_OUTLINE),
+        totalChars: markdown.length,
+        truncated: false,
+      };
+    }
+    start = match.offset;
+  }
+  const chunk = chunkAt(markdown, start, CHUNK_CHARS);
+  return {
+    content: chunk.content,
+    outline: chunk.offset === 0 || section ? headings.slice(0, MAX_OUTLINE) : undefined,
+    offset: chunk.offset,
+    nextOffset: chunk.nextOffset,
+    totalChars: markdown.length,
+    truncated: chunk.nextOffset !== null,
+  };
+}
+
+export const explorePricing = meterTool(checkpointTool(createTool({
+  id: "explore-pricing",
+  description:
+    "Explores a PRICING page interactively: expands collapsed 'compare all features' tables and accordions, then flips billing-period toggles " +
+    "(monthly/annual) and currency selectors, capturing the page in each state. Returns variants labeled by state, e.g. 'Annual / EUR'. " +
+    "The first variant has the full content, in chunks like scrape-url: an outline of its headings and a nextOffset — call again with " +
+    "that offset, or with a section heading from the outline, to read more; pass variant to read another variant in full. " +
+    "Later variants list only the lines that changed. Each variant has its own sourceId for citations. " +
+    "Use this instead of scrape-url once you have found the pricing page.",
+  inputSchema: z.object({
+    url: z.string().url().describe("The pricing page URL"),
+    variant: z.string().optional().describe("Label of the variant to read in full, e.g. 'Annual / EUR' (default: the first)"),
+    section: z.string().optional().describe("Start reading at this heading from the variant's outline (case-insensitive)"),
+    offset: z.number().optional().describe("Start reading at this character offset (use nextOffset from the previous result)"),
+  }),
+  execute: async ({ url, variant, section, offset }) => {
+    let capture = loaded.get(url) ?? readCache<PricingCapture>("explore-pricing", { url, extract: "main", ...authScope(url) });
+    if (capture) {
+      console.log(`  [explore-pricing] Cache hit for ${url} → ${capture.variants.length} variant(s)`);
+    } else if (isCacheOnly()) {
+      console.log(`  [explore-pricing] Cache miss for ${url} (cache-only run)`);
+      return { url, controls: null, variants: [], errors: ["Not in cache — cache-only run"] };
+    } else {
+      const robots = await checkRobots(url);
+      if (!robots.allowed) {
+        return { url, controls: null, variants: [], errors: [`${robots.reason} — page not visited`] };
+      }
+
+      try {
+        capture = await politely(url, () => withPage((page) => capturePricing(page, url)));
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.log(`  [explore-pricing] Error on ${url}: ${message}`);
+        return { url, controls: null, variants: [], errors: [message] };
+      }
+      if (capture.variants.length > 0) {
+        writeCache("explore-pricing", { url, extract: "main", ...authScope(url) }, capture);
+      }
+    }
+    loaded.set(url, capture);
+
+    const [first] = capture.variants;
+    const read = variant ? capture.variants.findIndex((v) => v.label.toLowerCase() === variant.toLowerCase()) : 0;
+    if (read < 0) {
+      return { url, controls: capture.controls, variants: [], errors: [`No variant labeled "${variant}" — pick one of: ${capture.variants.map((v) => v.label).join(", ")}`] };
+    }
+    const variants = capture.variants.map((v) => {
+      // Each state is its own citable source, addressed by a fragment on the page URL
+      const slug = v.label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+      const source = addSource(`${url}#${slug}`, `${capture!.title} (${v.label})`, v.markdown);
+      snapshotPage(source);
+      return { label: v.label, sourceId: source.id };
+    });
+
+    return {
+      url,
+      controls: capture.controls,
+      variants: variants.map((v, i) => {
+        const { markdown } = capture!.variants[i];
+        if (i === read) {
+          return { ...v, ...readVariant(markdown, section, offset) };
+        }
+        if (i === 0) {
+          // Already read on an earlier call — the later variants are still described against it
+          return v;
+        }
+        if (markdown === first.markdown) {
+          return { ...v, identicalTo: first.label };
+        }
+        return { ...v, changesFromFirst: shortDiff(first.markdown, markdown, MAX_CHANGED_LINES) };
+      }),
+      errors: capture.errors,
+    };
+  },
+}), (result) => result.variants.length === 0));
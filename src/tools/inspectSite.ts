@@ -0,0 +1,354 @@
+import { createTool } from "@mastra/core/tools";
+import { z } from "zod";
+import type { Page } from "playwright";
+import { withPage } from "../session";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { authScope } from "../auth";
+import { checkRobots, politely } from "../politeness";
+import { addSource } from "../sources";
+import { snapshotPage } from "../runs";
+import { detectTechnologies, GLOBAL_PROBES, HEADER_PROBES, SELECTOR_PROBES } from "../fingerprints";
+import type { DetectedTech, PageSignals } from "../fingerprints";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
+
+const MAX_STRUCTURED_ITEMS = 10;
+const MAX_DETAILS = 15;
+
+const SECURITY_HEADERS = [
+  "strict-transport-security",
+  "content-security-policy",
+  "x-frame-options",
+  "x-content-type-options",
+  "referrer-policy",
+  "permissions-policy",
+  "cross-origin-opener-policy",
+];
+const INFRA_HEADERS = ["server", "x-powered-by", "via", "x-cache", "cf-cache-status", "alt-svc"];
+// The only headers kept in the snapshot — cookies and the rest never reach the cache
+const KEPT_HEADERS = new Set([...SECURITY_HEADERS, ...INFRA_HEADERS, ...HEADER_PROBES]);
+
+// JSON-LD types worth reporting; WebPage, BreadcrumbList and the like say nothing about the company
+const STRUCTURED_TYPES = /Organization|Corporation|Product|Offer|SoftwareApplication|WebApplication|Service|LocalBusiness|Brand|AggregateRating/;
+
+/** Everything read from the live page — cached, so signature updates apply to cached pages too. */
+interface SiteSnapshot {
+  status: number;
+  finalUrl: string;
+  title: string;
+  headers: Record<string, string>;
+  jsonLd: unknown[];
+  microdataTypes: string[];
+  meta: Record<string, string>;
+  signals: PageSignals;
+  links: { url: string; text: string }[];
+  certificationMentions: string[];
+}
+
+/** A JSON-LD object with an @type, e.g. an Organization or Offer. */
+type JsonLdNode = Record<string, unknown>;
+
+export type TrustLinkKind = "status" | "trust-center" | "security" | "compliance";
+
+export interface StructuredDataItem {
+  type: string;
+  name: string | null;
+  /** Flattened properties, e.g. { "foundingDate": "2010", "offers.price": "0" } */
+  details: Record<string, string>;
+}
+
+/** What inspect-site returns: every signal is also in the cited source's content. */
+export interface SiteInspection {
+  url: string;
+  title: string;
+  sourceId?: string;
+  structuredData: StructuredDataItem[];
+  /** schema.org types marked up with microdata (itemtype) */
+  microdataTypes: string[];
+  /** OpenGraph, Twitter card and descriptive meta tags */
+  meta: Record<string, string>;
+  headers: {
+    infrastructure: Record<string, string>;
+    /** Security headers, null where the response doesn't send one */
+    security: Record<string, string | null>;
+  };
+  technologies: DetectedTech[];
+  trustLinks: { kind: TrustLinkKind; url: string; text: string }[];
+  /** Compliance certifications the page itself mentions */
+  certifications: string[];
+  error?: string;
+}
+
+/**
+ * Reads metadata, scripts, globals and candidate trust links from the page in
+ * one pass. Runs inside the browser context via page.evaluate.
+ */
+async function readSnapshot(page: Page, url: string): Promise<SiteSnapshot> {
+  console.log(`  [inspect-site] Navigating to ${url}`);
+  const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  // Tag managers and widgets load their scripts after DOMContentLoaded
+  await page.waitForTimeout(3000);
+
+  const inPage = await page.evaluate(
+    ({ globals, selectors }: { globals: string[]; selectors: string[] }) => {
+      const win = globalThis as any;
+      const doc = win.document;
+
+      const jsonLd: unknown[] = [];
+      for (const el of Array.from(doc.querySelectorAll('script[type="application/ld+json"]') as any[])) {
+        try {
+          jsonLd.push(JSON.parse(el.textContent || ""));
+        } catch {
+          // Malformed JSON-LD is common — skip it
+        }
+      }
+
+      const meta: Record<string, string> = {};
+      for (const el of Array.from(doc.querySelectorAll("meta[content]") as any[])) {
+        const key = (el.getAttribute("property") || el.getAttribute("name") || "").toLowerCase();
+        if (/^(og:|twitter:|description$|keywords$|generator$|application-name$|author$)/.test(key) && !(key in meta)) {
+          meta[key] = (el.getAttribute("content") as string).trim();
+        }
+      }
+      const canonical = doc.querySelector('link[rel="canonical"]')?.href;
+      if (canonical) meta.canonical = canonical;
+
+      const scripts = new Set<string>();
+      for (const el of Array.from(doc.querySelectorAll("script[src]") as any[])) scripts.add(el.src);
+      for (const entry of win.performance.getEntriesByType("resource") as any[]) {
+        if (entry.initiatorType === "script") scripts.add(entry.name);
+      }
+
+      const links = Array.from(doc.querySelectorAll("a[href]") as any[]).map((a: any) => ({
+        url: a.href as string,
+        text: ((a.textContent as string) || a.getAttribute("aria-label") || "").trim().replace(/\s+/g, " ").slice(0, 80),
+      }));
+
+      const text: string = doc.body?.innerText || "";
+      const certs = text.match(/SOC ?[123]( Type (I{1,2}|[12]))?|ISO(\/IEC)? ?270(01|17|18|701)|PCI[ -]DSS( Level 1)?|HIPAA|FedRAMP|CSA STAR|TISAX|GDPR/gi) ?? [];
+
+      return {
+        title: doc.title as string,
+        jsonLd,
+        microdataTypes: Array.from(doc.querySelectorAll("[itemtype]") as any[]).map((el: any) => el.getAttribute("itemtype") as string),
+        meta,
+        scripts: Array.from(scripts),
+        globals: globals.filter((g) => {
+          try {
+            return win[g] !== undefined;
+          } catch {
+            return false;
+          }
+        }),
+        selectors: selectors.filter((s) => {
+          try {
+            return doc.querySelector(s) !== null;
+          } catch {
+            return false;
+          }
+        }),
+        links,
+        certificationMentions: certs,
+      };
+    },
+    { globals: GLOBAL_PROBES, selectors: SELECTOR_PROBES },
+  );
+
+  const all = response ? await response.allHeaders() : {};
+  const headers = Object.fromEntries(Object.entries(all).filter(([name]) => KEPT_HEADERS.has(name)));
+  return {
+    status: response?.status() ?? 200,
+    finalUrl: page.url(),
+    title: inPage.title,
+    headers,
+    jsonLd: inPage.jsonLd,
+    microdataTypes: [...new Set(inPage.microdataTypes.filter((t) => /schema\.org/i.test(t)).map((t) => t.replace(/^https?:\/\/schema\.org\//i, "")))],
+    meta: inPage.meta,
+    signals: { scripts: inPage.scripts, globals: inPage.globals, selectors: inPage.selectors, generator: inPage.meta.generator ?? null, headers },
+    links: inPage.links,
+    certificationMentions: inPage.certificationMentions,
+  };
+}
+
+/** Flattens JSON-LD documents (arrays, @graph) into the items worth reporting. */
+function structuredItems(jsonLd: unknown[]): StructuredDataItem[] {
+  const nodes: JsonLdNode[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(visit);
+    else if (value && typeof value === "object") {
+      const node = value as JsonLdNode;
+      if (node["@graph"]) visit(node["@graph"]);
+      if (node["@type"]) nodes.push(node);
+    }
+  };
+  jsonLd.forEach(visit);
+
+  const flatten = (value: object, prefix: string, out: Record<string, string>) => {
+    for (const [key, v] of Object.entries(value)) {
+      if (key.startsWith("@")) continue;
+      const name = prefix ? `${prefix}.${key}` : key;
+      if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") out[name] = String(v).slice(0, 200);
+      else if (Array.isArray(v) && v.every((x) => typeof x === "string")) out[name] = v.join(", ").slice(0, 200);
+      else if (v && typeof v === "object" && !prefix && !Array.isArray(v)) flatten(v, name, out);
+      else if (Array.isArray(v) && !prefix && v[0] && typeof v[0] === "object") flatten(v[0], name, out);
+    }
+  };
+
+  return nodes
+    .filter((n) => [n["@type"]].flat().some((t: unknown) => typeof t === "string" && STRUCTURED_TYPES.test(t)))
+    .slice(0, MAX_STRUCTURED_ITEMS)
+    .map((n) => {
+      const details: Record<string, string> = {};
+      flatten(n, "", details);
+      delete details.name;
+      return {
+        type: [n["@type"]].flat().join(", "),
+        name: typeof n.name === "string" ? n.name : null,
+        details: Object.fromEntries(Object.entries(details).slice(0, MAX_DETAILS)),
+      };
+    });
+}
+
+function trustLinkKind(url: string, text: string): TrustLinkKind | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return null;
+  }
+  const where = `${u.hostname}${u.pathname}`.toLowerCase();
+  const label = text.toLowerCase();
+  if (/^status\./.test(u.hostname) || /\/status\/?$/.test(u.pathname) || /^(system )?status$/.test(label)) return "status";
+  if (/trust/.test(where) || /trust (center|centre|portal)/.test(label)) return "trust-center";
+  if (/soc-?2|iso-?27001|pci|compliance|gdpr|hipaa|certification/.test(where) || /soc 2|iso 27001|pci|compliance|certifications?/.test(label)) return "compliance";
+  if (/\/security\b/.test(u.pathname.toLowerCase()) || /^security$/.test(label)) return "security";
+  return null;
+}
+
+function inspect(url: string, snapshot: SiteSnapshot): Omit<SiteInspection, "sourceId"> {
+  const infrastructure = Object.fromEntries(INFRA_HEADERS.filter((h) => snapshot.headers[h]).map((h) => [h, snapshot.headers[h]]));
+  const security = Object.fromEntries(SECURITY_HEADERS.map((h) => [h, snapshot.headers[h] ?? null]));
+
+  const trustLinks: SiteInspection["trustLinks"] = [];
+  const seen = new Set<string>();
+  for (const link of snapshot.links) {
+    const kind = trustLinkKind(link.url, link.text);
+    const key = link.url.split("#")[0];
+    if (kind && !seen.has(key)) {
+      seen.add(key);
+      trustLinks.push({ kind, url: key, text: link.text });
+    }
+  }
+
+  const certifications: string[] = [];
+  const seenCerts = new Set<string>();
+  for (const mention of snapshot.certificationMentions) {
+    const key = mention.toUpperCase().replace(/[\s-]+/g, " ");
+    if (!seenCerts.has(key)) {
+      seenCerts.add(key);
+      certifications.push(mention);
+    }
+  }
+  return {
+    url,
+    title: snapshot.title,
+    structuredData: structuredItems(snapshot.jsonLd),
+    microdataTypes: snapshot.microdataTypes,
+    meta: snapshot.meta,
+    headers: { infrastructure, security },
+    technologies: detectTechnologies(snapshot.signals),
+    trustLinks,
+    certifications,
+  };
+}
+
+/** The inspection as a markdown page, so it can be cited like any scraped page. */
+function formatInspection(result: Omit<SiteInspection, "sourceId">): string {
+  const lines = [`# Site inspection: ${result.url}`, ""];
+  lines.push("## Detected technologies", "");
+  if (result.technologies.length === 0) lines.push("None detected.");
+  for (const t of result.technologies) lines.push(`- ${t.name} (${t.category}) — ${t.evidence.join("; ")}`);
+
+  lines.push("", "## Response headers", "");
+  for (const [h, v] of Object.entries(result.headers.infrastructure)) lines.push(`- ${h}: ${v}`);
+  for (const [h, v] of Object.entries(result.headers.security)) lines.push(`- ${h}: ${v ?? "not set"}`);
+
+  if (result.structuredData.length > 0 || result.microdataTypes.length > 0) {
+    lines.push("", "## Structured data (schema.org)", "");
+    for (const item of result.structuredData) {
+      lines.push(`- ${item.type}${item.name ? `: ${item.name}` : ""}`);
+      for (const [k, v] of Object.entries(item.details)) lines.push(`  - ${k}: ${v}`);
+    }
+    if (result.microdataTypes.length > 0) lines.push(`- Microdata types: ${result.microdataTypes.join(", ")}`);
+  }
+
+  if (Object.keys(result.meta).length > 0) {
+    lines.push("", "## Meta tags", "");
+    for (const [k, v] of Object.entries(result.meta)) lines.push(`- ${k}: ${v}`);
+  }
+
+  lines.push("", "## Trust, status and compliance", "");
+  if (result.certifications.length > 0) lines.push(`- Certifications mentioned on the page: ${result.certifications.join(", ")}`);
+  for (const link of result.trustLinks) lines.push(`- ${link.kind}: [${link.text || link.url}](${link.url})`);
+  if (result.certifications.length === 0 && result.trustLinks.length === 0) lines.push("None found.");
+  return lines.join("\n") + "\n";
+}
+
+const empty = (url: string, error: string): SiteInspection => ({
+  url,
+  title: "",
+  structuredData: [],
+  microdataTypes: [],
+  meta: {},
+  headers: { infrastructure: {}, security: {} },
+  technologies: [],
+  trustLinks: [],
+  certifications: [],
+  error,
+});
+
+export const inspectSite = meterTool(checkpointTool(createTool({
+  id: "inspect-site",
+  description:
+    "Inspects a page (usually the homepage) for hard tech-stack and infrastructure signals instead of marketing copy: JSON-LD / schema.org " +
+    "Organization, Product and Offer data; OpenGraph and meta tags; response headers (server, CDN, security headers); frameworks, analytics, " +
+    "tag managers, chat, A/B testing and payment widgets detected from script URLs and globals; and links to status, trust-center, security " +
+    "and compliance pages (SOC 2, ISO 27001, PCI). The result has a sourceId — cite it for tech signals and certifications.",
+  inputSchema: z.object({
+    url: z.string().url().describe("The page to inspect, usually the homepage"),
+  }),
+  execute: async ({ url }): Promise<SiteInspection> => {
+    let snapshot = readCache<SiteSnapshot>("inspect-site", { url, ...authScope(url) });
+    if (snapshot) {
+      console.log(`  [inspect-site] Cache hit for ${url}`);
+    } else if (isCacheOnly()) {
+      console.log(`  [inspect-site] Cache miss for ${url} (cache-only run)`);
+      return empty(url, "Not in cache — cache-only run");
+    } else {
+      const robots = await checkRobots(url);
+      if (!robots.allowed) {
+        return empty(url, `${robots.reason} — page not visited`);
+      }
+      try {
+        snapshot = await politely(url, () => withPage((page) => readSnapshot(page, url)));
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message.split("\n")[0] : String(err);
+        console.log(`  [inspect-site] Error on ${url}: ${message}`);
+        return empty(url, `Navigation error: ${message}`);
+      }
+      if (snapshot.status >= 400) {
+        return empty(url, `HTTP ${snapshot.status}`);
+      }
+      writeCache("inspect-site", { url, ...authScope(url) }, snapshot);
+    }
+
+    const result = inspect(url, snapshot);
+    const source = addSource(`${url.split("#")[0]}#site-inspection`, `${snapshot.title || new URL(url).hostname} (site inspection)`, formatInspection(result));
+    snapshotPage(source);
+    console.log(
+      `  [inspect-site] ${result.technologies.length} technolog${result.technologies.length === 1 ? "y" : "ies"}, ` +
+        `${result.structuredData.length} structured data item(s), ${result.trustLinks.length} trust link(s) → ${source.id}`,
+    );
+    return { ...result, sourceId: source.id };
+  },
+}), (result) => !result.sourceId));
@@ -1,52 +1,123 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import TurndownService from "turndown";
-import { gfm } from "turndown-plugin-gfm";
-import { getPage } from "../session";
+import { withPage } from "../session";
+import { htmlToMarkdown, extractMainHtml, outline, chunkAt, findSection, CHUNK_CHARS } from "../markdown";
+import { addSource } from "../sources";
+import { snapshotPage } from "../runs";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { authScope } from "../auth";
+import { checkRobots, politely } from "../politeness";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
 
-const MAX_CHARS = 15000;
+const MAX_OUTLINE = 60;
 
-const turndown = new TurndownService({ headingStyle: "atx", bulletListMarker: "-" });
-turndown.use(gfm); // GFM tables plugin — keeps pricing tables readable
+/** What gets cached per URL — the full rendered page plus the markdown of its main content. */
+interface PageSnapshot {
+  status: number;
+  title: string;
+  html: string;
+  markdown: string;
+}
 
-export const scrapeUrl = createTool({
+// Pages already loaded this run, so reading further chunks never re-navigates (even with --refresh)
+const loaded = new Map<string, PageSnapshot>();
+
+export const scrapeUrl = meterTool(checkpointTool(createTool({
   id: "scrape-url",
   description:
-    "Visits a URL using the Steel browser session, extracts the page content, and returns it as clean markdown. Use this after you have confirmed the URL exists (via search-for-page or a known homepage).",
+    "Visits a URL using the Steel browser session, extracts the page's main content (no nav, footer or cookie banners), and returns it as clean markdown. Use this after you have confirmed the URL exists (via search-for-page or a known homepage). " +
+    "Long pages are returned in chunks: the result has an outline of all headings and a nextOffset — call again with that offset, or with a section heading from the outline, to read more. " +
+    "The result carries a sourceId (e.g. S3) — cite it as [S3] after every report claim taken from this page.",
   inputSchema: z.object({
     url: z.string().url().describe("The full URL to scrape"),
+    section: z.string().optional().describe("Start reading at this heading from the outline (case-insensitive)"),
+    offset: z.number().optional().describe("Start reading at this character offset (use nextOffset from the previous result)"),
   }),
-  execute: async ({ url }) => {
-    const page = await getPage();
+  execute: async ({ url, section, offset }) => {
+    let snapshot = loaded.get(url) ?? readCache<PageSnapshot>("scrape-url", { url, extract: "main", ...authScope(url) });
+    if (snapshot) {
+      console.log(`  [scrape-url] Cache hit for ${url}`);
+    } else if (isCacheOnly()) {
+      console.log(`  [scrape-url] Cache miss for ${url} (cache-only run)`);
+      return { url, title: "", content: "Not in cache — this is a cache-only run, so the page was not visited", truncated: false };
+    } else {
+      const robots = await checkRobots(url);
+      if (!robots.allowed) {
+        return { url, title: "", content: `${robots.reason} — page not visited`, truncated: false, blocked: true };
+      }
 
-    try {
-      console.log(`  [scrape-url] Navigating to ${url}`);
-      const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+      try {
+        snapshot = await politely(url, () => withPage(async (page): Promise<PageSnapshot> => {
+          console.log(`  [scrape-url] Navigating to ${url}`);
+          const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
 
-      if (response && response.status() >= 400) {
-        return { url, title: "", content: `Page returned HTTP ${response.status()}`, truncated: false };
-      }
+          if (response && response.status() >= 400) {
+            return { status: response.status(), title: "", html: "", markdown: "" };
+          }
 
-      // Brief pause for JS-rendered content to settle after DOMContentLoaded
-      await page.waitForTimeout(2000);
+          // Brief pause for JS-rendered content to settle after DOMContentLoaded
+          await page.waitForTimeout(2000);
 
-      const title = await page.title();
-      const html = await page.content();
-      let markdown = turndown.turndown(html);
+          const title = await page.title();
+          const html = await page.content();
+          const markdown = htmlToMarkdown(await extractMainHtml(page));
+          return { status: response?.status() ?? 200, title, html, markdown };
+        }));
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.log(`  [scrape-url] Error on ${url}: ${message}`);
+        return { url, title: "", content: `Navigation error: ${message}`, truncated: false };
+      }
 
-      const truncated = markdown.length > MAX_CHARS;
-      if (truncated) {
-        markdown = markdown.slice(0, MAX_CHARS);
+      if (snapshot.status < 400) {
+        writeCache("scrape-url", { url, extract: "main", ...authScope(url) }, snapshot);
       }
+    }
 
-      console.log(`  [scrape-url] Done — ${markdown.length} chars${truncated ? " (truncated)" : ""}`);
-      return { url, title, content: markdown, truncated };
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      console.log(`  [scrape-url] Error on ${url}: ${message}`);
-      return { url, title: "", content: `Navigation error: ${message}`, truncated: false };
-    } finally {
-      await page.close();
+    if (snapshot.status >= 400) {
+      return { url, title: "", content: `Page returned HTTP ${snapshot.status}`, truncated: false };
     }
+
+    loaded.set(url, snapshot);
+
+    const { title, markdown } = snapshot;
+    const source = addSource(url, title, markdown);
+    snapshotPage(source);
+    const sourceId = source.id;
+
+    const headings = outline(markdown);
+    let start = offset ?? 0;
+    if (section) {
+      const match = findSection(headings, section);
+      if (!match) {
+        return {
+          sourceId,
+          url,
+          title,
+          content: `No heading matching "${section}" — pick one from the outline`,
+          outline: headings.slice(0, MAX_OUTLINE),
+          totalChars: markdown.length,
+          truncated: false,
+        };
+      }
+      start = match.offset;
+    }
+
+    const chunk = chunkAt(markdown, start, CHUNK_CHARS);
+    const truncated = chunk.nextOffset !== null;
+    console.log(`  [scrape-url] Done — ${sourceId}, chars ${chunk.offset}-${chunk.offset + chunk.content.length} of ${markdown.length}`);
+    return {
+      sourceId,
+      url,
+      title,
+      content: chunk.content,
+      // The outline is only useful once per page — later chunks just say where they are
+      outline: chunk.offset === 0 || section ? headings.slice(0, MAX_OUTLINE) : undefined,
+      offset: chunk.offset,
+      nextOffset: chunk.nextOffset,
+      totalChars: markdown.length,
+      truncated,
+    };
   },
-});
+}), (result) => !result.sourceId));
@@ -1,37 +1,94 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { getPage } from "../session";
+import { withPage } from "../session";
+import { readCache, writeCache, isCacheOnly } from "../cache";
+import { authScope } from "../auth";
+import { checkRobots, politely } from "../politeness";
+import { meterTool } from "../usage";
+import { checkpointTool } from "../checkpoint";
+import { getConfig } from "../config";
+import { KNOWN_TOPICS, normalizeTerm, topicTerms } from "../topicTerms";
+import type { SearchTerm } from "../topicTerms";
 
-const MAX_MATCHES = 10;
+const DEFAULT_MAX_RESULTS = 10;
+const MAX_SEEDS = 5;
 
-// Deduplication cache: prevents the LLM from wasting steps re-searching
-// the same (baseUrl, keyword) pair that already returned 0 results.
-const searchCache = new Map<string, { baseUrl: string; keyword: string; matches: { url: string; linkText: string }[] }>();
+// Points behind a candidate's score. A link needs at least one term match in its
+// path or text; where it sits on the page and how deep it is only reorder those.
+const SCORE = {
+  segment: 40, // a whole path segment is the term: /pricing
+  partialSegment: 15, // the term is part of a segment: /blog/pricing-strategy-tips
+  subdomain: 30, // docs.example.com for "docs"
+  textExact: 30, // the link text is the term: "Plans"
+  textWord: 20, // the term is a word of the link text: "See our plans"
+  textPartial: 8,
+  keyword: 5, // the term asked for, over a synonym or translation
+  nav: 15,
+  header: 15,
+  footer: 8,
+  sameOrigin: 20,
+  sameSite: 10,
+  otherSite: -20,
+  perDepth: -6, // each path segment after the first
+  perExtraSeed: 5, // linked from several of the scanned pages
+};
 
-export const searchForPage = createTool({
-  id: "search-for-page",
-  description:
-    "Navigates to a base URL and discovers sub-pages by scanning all <a> links on the page. " +
-    "Filters links whose href or visible text contains the keyword (case-insensitive). " +
-    "Use this BEFORE scrape-url to find the correct URL for a topic like 'pricing', 'features', or 'docs'. " +
-    "Results are cached — calling with the same baseUrl and keyword twice returns the cached result instantly.",
-  inputSchema: z.object({
-    baseUrl: z.string().url().describe("The homepage or base URL to scan for links"),
-    keyword: z.string().describe("Keyword to search for in link hrefs and text (e.g. 'pricing', 'features')"),
-  }),
-  execute: async ({ baseUrl, keyword }) => {
-    const cacheKey = `${baseUrl}::${keyword.toLowerCase()}`;
-    const cached = searchCache.get(cacheKey);
-    if (cached) {
-      console.log(`  [search-for-page] Cache hit for ${baseUrl} "${keyword}" → ${cached.matches.length} match(es)`);
-      return cached;
-    }
+type Area = "nav" | "header" | "footer" | "main";
+
+interface RawLink {
+  href: string;
+  text: string;
+  /** Missing on link lists cached before areas were recorded — scored as "main" */
+  area?: Area;
+}
+
+export interface RankedLink {
+  url: string;
+  linkText: string;
+  score: number;
+  /** Why it scored, e.g. 'path segment "pricing"', "in nav", "depth 2" */
+  reasons: string[];
+  /** The scanned pages that link to it */
+  foundOn: string[];
+}
 
-    const page = await getPage();
+export interface SearchResult {
+  baseUrl: string;
+  keyword: string;
+  seeds: string[];
+  terms: string[];
+  matches: RankedLink[];
+  errors: string[];
+  blocked?: string;
+}
 
-    try {
-      console.log(`  [search-for-page] Scanning ${baseUrl} for "${keyword}"`);
-      await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
+// Deduplication cache: prevents the LLM from wasting steps re-searching
+// the same pages for the same terms that already returned 0 results.
+const searchCache = new Map<string, SearchResult>();
+
+/**
+ * Reads every link on a page, with the part of the page it sits in. Link lists
+ * are keyword-independent, so they are cached per URL and shared by every search.
+ */
+async function scanLinks(url: string): Promise<{ links: RawLink[] } | { error: string; blocked?: boolean }> {
+  const cached = readCache<RawLink[]>("search-for-page", { url, ...authScope(url) });
+  if (cached) {
+    console.log(`  [search-for-page] Cached links for ${url}`);
+    return { links: cached };
+  }
+  if (isCacheOnly()) {
+    console.log(`  [search-for-page] Cache miss for ${url} (cache-only run)`);
+    return { error: `${url}: not in cache — cache-only run` };
+  }
+  const robots = await checkRobots(url);
+  if (!robots.allowed) {
+    return { error: `${url}: ${robots.reason}`, blocked: true };
+  }
+
+  try {
+    const links = await politely(url, () => withPage(async (page) => {
+      console.log(`  [search-for-page] Scanning ${url}`);
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
 
       // Brief pause for JS-rendered nav links to appear
       await page.waitForTimeout(2000);
@@ -39,47 +96,254 @@ export const searchForPage = createTool({
       // Extract all <a> elements directly in the browser context.
       // The callback runs inside the page — types are opaque from Node's perspective,
       // so we cast through unknown to satisfy tsc without pulling in lib: ["dom"].
-      const links = await page.evaluate(() => {
+      return await page.evaluate(() => {
         const anchors = Array.from((globalThis as any).document.querySelectorAll("a[href]") as any[]);
         return anchors.map((a: any) => ({
           href: (a.getAttribute("href") as string) || "",
-          text: ((a.textContent as string) || "").trim().replace(/\s+/g, " "),
+          // Icon-only links still have a label for screen readers
+          text: (((a.textContent as string) || "").trim() || a.getAttribute("aria-label") || a.getAttribute("title") || a.querySelector("img[alt]")?.getAttribute("alt") || "")
+            .trim()
+            .replace(/\s+/g, " "),
+          area: a.closest("nav, [role=navigation]")
+            ? "nav"
+            : a.closest("header, [role=banner]")
+              ? "header"
+              : a.closest("footer, [role=contentinfo]")
+                ? "footer"
+                : "main",
         }));
-      }) as { href: string; text: string }[];
-
-      const kw = keyword.toLowerCase();
-
-      // Filter, resolve relative URLs, dedupe
-      const seen = new Set<string>();
-      const matches: { url: string; linkText: string }[] = [];
-
-      for (const { href, text } of links) {
-        if (!href.startsWith("javascript:") && !href.startsWith("mailto:") && !href.startsWith("#")) {
-          try {
-            const resolved = new URL(href, baseUrl).href;
-            if (!seen.has(resolved) && (resolved.toLowerCase().includes(kw) || text.toLowerCase().includes(kw))) {
-              seen.add(resolved);
-              matches.push({ url: resolved, linkText: text });
-              if (matches.length >= MAX_MATCHES) break;
-            }
-          } catch {
-            // skip malformed hrefs
-          }
-        }
+      }) as RawLink[];
+    }));
+    writeCache("search-for-page", { url, ...authScope(url) }, links);
+    return { links };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message.split("\n")[0] : String(err);
+    console.log(`  [search-for-page] Error on ${url}: ${message}`);
+    return { error: `${url}: ${message}` };
+  }
+}
+
+/** "release notes" → "release-notes", the way it would appear in a path. */
+function slug(term: string): string {
+  return term.replace(/['’]/g, "").replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "");
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      let decoded = segment;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch {
+        // keep the raw segment
       }
+      return slug(normalizeTerm(decoded.replace(/\.(html?|php|aspx?)$/i, "")));
+    });
+}
+
+// Scripts without spaces between words — a substring is as good as a word there
+const NO_WORD_BREAKS = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+function textMatch(text: string, term: string): "exact" | "word" | "partial" | null {
+  if (!text) return null;
+  if (text === term || text.replace(/[^\p{L}\p{N} ]/gu, "").trim() === term) return "exact";
+  if (!text.includes(term)) return null;
+  if (NO_WORD_BREAKS.test(term)) return "word";
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "u").test(text)) return "word";
+  return term.length >= 5 ? "partial" : null;
+}
+
+function describeTerm(t: SearchTerm): string {
+  return t.source === "keyword" ? `"${t.term}"` : t.source === "synonym" ? `"${t.term}" (synonym)` : `"${t.term}" (${t.source})`;
+}
+
+/**
+ * Scores one link against the terms: the best path match and the best text
+ * match count, then page area, origin and depth adjust the total.
+ */
+function scoreLink(url: URL, text: string, area: Area, terms: SearchTerm[], base: URL): { score: number; reasons: string[] } | null {
+  const segments = pathSegments(url);
+  const labels = url.hostname.split(".").slice(0, -2);
+  const normalizedText = normalizeTerm(text);
+
+  let pathScore = 0;
+  let pathReason = "";
+  let textScore = 0;
+  let textReason = "";
+  let keywordHit = false;
+  for (const t of terms) {
+    const s = slug(t.term);
+    if (!s) continue;
+    let p = 0;
+    let reason = "";
+    if (segments.includes(s)) {
+      p = SCORE.segment;
+      reason = `path segment ${describeTerm(t)}`;
+    } else if (labels.includes(s)) {
+      p = SCORE.subdomain;
+      reason = `subdomain ${describeTerm(t)}`;
+    } else {
+      const partial = segments.find((segment) => `-${segment}-`.includes(`-${s}-`));
+      if (partial) {
+        p = SCORE.partialSegment;
+        reason = `${describeTerm(t)} in path segment "${partial}"`;
+      }
+    }
+    if (p > pathScore) {
+      pathScore = p;
+      pathReason = reason;
+    }
 
-      console.log(`  [search-for-page] Found ${matches.length} match(es)`);
-      const result = { baseUrl, keyword, matches };
-      searchCache.set(cacheKey, result);
-      return result;
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      console.log(`  [search-for-page] Error on ${baseUrl}: ${message}`);
-      const result = { baseUrl, keyword, matches: [] as { url: string; linkText: string }[] };
-      searchCache.set(cacheKey, result);
-      return result;
-    } finally {
-      await page.close();
+    const match = textMatch(normalizedText, t.term);
+    const x = match === "exact" ? SCORE.textExact : match === "word" ? SCORE.textWord : match === "partial" ? SCORE.textPartial : 0;
+    if (x > textScore) {
+      textScore = x;
+      textReason = match === "exact" ? `link text is ${describeTerm(t)}` : `link text "${text.slice(0, 60)}" contains ${describeTerm(t)}`;
     }
+    if ((p > 0 || x > 0) && t.source === "keyword") keywordHit = true;
+  }
+  if (pathScore === 0 && textScore === 0) return null;
+
+  let score = pathScore + textScore;
+  const reasons = [pathReason, textReason].filter(Boolean);
+  if (keywordHit) {
+    score += SCORE.keyword;
+  }
+  if (area !== "main") {
+    score += SCORE[area];
+    reasons.push(`in ${area}`);
+  }
+  const site = (host: string) => host.replace(/^www\./, "").split(".").slice(-2).join(".");
+  if (url.origin === base.origin) {
+    score += SCORE.sameOrigin;
+    reasons.push("same origin");
+  } else if (site(url.hostname) === site(base.hostname)) {
+    score += SCORE.sameSite;
+    reasons.push("same site");
+  } else {
+    score += SCORE.otherSite;
+    reasons.push("other site");
+  }
+  if (segments.length > 1) {
+    score += (segments.length - 1) * SCORE.perDepth;
+    reasons.push(`depth ${segments.length}`);
+  }
+  return { score, reasons };
+}
+
+/**
+ * Ranks every link found on the scanned pages. A URL linked several times keeps
+ * its best-scoring occurrence, plus a bonus for each further page linking to it.
+ */
+function rankLinks(scans: { seed: string; links: RawLink[] }[], terms: SearchTerm[], baseUrl: string): RankedLink[] {
+  const base = new URL(baseUrl);
+  const ranked = new Map<string, RankedLink>();
+  for (const { seed, links } of scans) {
+    for (const { href, text, area = "main" } of links) {
+      if (href.startsWith("javascript:") || href.startsWith("mailto:") || href.startsWith("tel:") || href.startsWith("#")) continue;
+      let url: URL;
+      try {
+        url = new URL(href, seed);
+      } catch {
+        continue; // skip malformed hrefs
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+      url.hash = "";
+      if (url.href === new URL(seed).href) continue;
+
+      const scored = scoreLink(url, text, area, terms, base);
+      if (!scored) continue;
+      const existing = ranked.get(url.href);
+      if (!existing) {
+        ranked.set(url.href, { url: url.href, linkText: text, ...scored, foundOn: [seed] });
+        continue;
+      }
+      if (!existing.foundOn.includes(seed)) existing.foundOn.push(seed);
+      if (scored.score > existing.score) {
+        Object.assign(existing, { linkText: text, ...scored });
+      }
+    }
+  }
+
+  return Array.from(ranked.values())
+    .map((link) => {
+      if (link.foundOn.length < 2) return link;
+      return {
+        ...link,
+        score: link.score + (link.foundOn.length - 1) * SCORE.perExtraSeed,
+        reasons: [...link.reasons, `linked from ${link.foundOn.length} pages`],
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.url.length - b.url.length);
+}
+
+export const searchForPage = meterTool(checkpointTool(createTool({
+  id: "search-for-page",
+  description:
+    "Navigates to a base URL (and optionally a few more seed pages) and finds sub-pages by scanning all <a> links. " +
+    "Pass a topic (e.g. 'pricing') to search with its synonyms and translations — a site may say 'Plans' or 'Tarife' — or a single keyword. " +
+    "Links are ranked by exact path segment, link text, whether they sit in the nav/header/footer, same origin and path depth, " +
+    "so /pricing comes before /blog/pricing-strategy-tips; each match has a score and the reasons for it. " +
+    "Use this BEFORE scrape-url to find the correct URL for a topic like 'pricing', 'features', or 'docs'. " +
+    "Results are cached — calling with the same arguments twice returns the cached result instantly.",
+  inputSchema: z.object({
+    baseUrl: z.string().url().describe("The homepage or base URL to scan for links"),
+    keyword: z.string().optional().describe("Keyword to search for in link paths and text (e.g. 'pricing', 'features')"),
+    topic: z
+      .string()
+      .optional()
+      .describe(`Topic to search for with its synonyms and translations — a configured topic name or one of: ${KNOWN_TOPICS.join(", ")}`),
+    synonyms: z.array(z.string()).optional().describe("Extra words to search for alongside the keyword or topic"),
+    languages: z
+      .array(z.string())
+      .optional()
+      .describe('Only use the translations for these languages, e.g. ["de"] for a German site; all are used by default'),
+    seedUrls: z
+      .array(z.string().url())
+      .max(MAX_SEEDS)
+      .optional()
+      .describe("More pages to scan besides the base URL — hub pages already found, e.g. the product or company page"),
+    maxResults: z.number().int().positive().max(50).default(DEFAULT_MAX_RESULTS).describe("How many ranked matches to return"),
+  }),
+  execute: async ({ baseUrl, keyword, topic, synonyms, languages, seedUrls = [], maxResults = DEFAULT_MAX_RESULTS }) => {
+    const configured = topic ? getConfig().topics.find((t) => normalizeTerm(t.name) === normalizeTerm(topic)) : undefined;
+    const keywords = keyword ? [keyword] : (configured?.keywords ?? (topic ? [topic] : []));
+    const label = keyword ?? topic ?? "";
+    const seeds = [...new Set([baseUrl, ...seedUrls])];
+    if (keywords.length === 0) {
+      return { baseUrl, keyword: label, seeds, terms: [], matches: [], errors: ["Pass a keyword or a topic"] } as SearchResult;
+    }
+    const terms = topicTerms({ keywords, topic, synonyms, locales: configured?.locales, languages });
+
+    const cacheKey = JSON.stringify({ seeds, terms: terms.map((t) => t.term), maxResults });
+    const cached = searchCache.get(cacheKey);
+    if (cached) {
+      console.log(`  [search-for-page] Cache hit for ${baseUrl} "${label}" → ${cached.matches.length} match(es)`);
+      return cached;
+    }
+
+    console.log(`  [search-for-page] Searching ${seeds.length} page(s) for "${label}" (${terms.length} term(s))`);
+    const scans: { seed: string; links: RawLink[] }[] = [];
+    const errors: string[] = [];
+    let blocked: string | undefined;
+    for (const seed of seeds) {
+      const scan = await scanLinks(seed);
+      if ("links" in scan) {
+        scans.push({ seed, links: scan.links });
+      } else {
+        errors.push(scan.error);
+        if (scan.blocked && seed === baseUrl) blocked = scan.error;
+      }
+    }
+
+    const matches = rankLinks(scans, terms, baseUrl).slice(0, maxResults);
+    const best = matches[0];
+    console.log(`  [search-for-page] Found ${matches.length} match(es)${best ? `, best ${best.url} (score ${best.score})` : ""}`);
+    const result: SearchResult = { baseUrl, keyword: label, seeds, terms: terms.map((t) => t.term), matches, errors, ...(blocked ? { blocked } : {}) };
+    searchCache.set(cacheKey, result);
+    return result;
   },
-});
+}), (result) => result.matches.length === 0 && result.errors.length > 0));
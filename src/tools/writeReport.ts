@@ -1,20 +1,91 @@
 import { createTool } from "@mastra/core/tools";
-import { z } from "zod";
 import fs from "fs";
 import path from "path";
+import { ReportSchema } from "../report/schema";
+import { renderMarkdown } from "../report/render";
+import { verifyCitations, citedSourceIds } from "../report/citations";
+import { getSource, listSources } from "../sources";
+import type { Source } from "../sources";
+import { getRunDir, hasRunFile, writeRunFile } from "../runs";
+import { getConfig } from "../config";
+import { meterTool } from "../usage";
 
-export const writeReport = createTool({
+// "flag" writes the report and lists unverified claims at the end of it;
+// "strict" rejects the call so the agent has to fix or drop those claims.
+const CITATION_MODE = process.env.CITATION_MODE === "strict" ? "strict" : "flag";
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg"];
+
+/**
+ * True when `asset` is an image this run saved under assets/. The report links
+ * to it and the server serves it, so anything else — a path climbing out of
+ * the folder, the run's own JSON — is refused.
+ */
+function isScreenshotAsset(asset: string): boolean {
+  const assets = path.join(path.resolve(getRunDir()), "assets");
+  const file = path.resolve(getRunDir(), asset);
+  return file.startsWith(assets + path.sep) && IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase()) && hasRunFile(asset);
+}
+
+export const writeReport = meterTool(createTool({
   id: "write-report",
   description:
-    "Writes the final competitive intelligence report to report.md in the current working directory. " +
+    "Writes the final competitive intelligence report as structured data. The data is validated, saved as JSON, " +
+    "and rendered to a markdown report (paths come from the project config). " +
+    "Every quote and figure must be followed by the [S#] citation of the scraped page it came from; quotes and figures " +
+    "that cannot be found in the cited page are flagged or rejected. " +
+    "When the run compares competitors against our own product, pass its profile as self, plus the gapAnalysis. " +
     "Call this exactly once at the end, after all research is complete.",
-  inputSchema: z.object({
-    content: z.string().describe("The full markdown report content to write"),
-  }),
-  execute: async ({ content }) => {
-    const filePath = path.resolve(process.cwd(), "report.md");
-    fs.writeFileSync(filePath, content, "utf-8");
-    console.log(`  [write-report] Report written to ${filePath}`);
-    return { filePath, success: true };
+  inputSchema: ReportSchema,
+  execute: async (input) => {
+    // Mastra validates tool input too, but re-parse so the files on disk are
+    // guaranteed to match the schema even if the call came from elsewhere.
+    const parsed = ReportSchema.safeParse(input);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+      console.log(`  [write-report] Rejected — ${issues.length} schema issue(s)`);
+      return { success: false, errors: issues };
+    }
+
+    const report = parsed.data;
+    const profiles = [...(report.self ? [["self", report.self] as const] : []), ...report.competitors.map((c, i) => [`competitors.${i}`, c] as const)];
+    const missing = profiles.flatMap(([field, c]) =>
+      c.screenshots.flatMap((s, j) => (isScreenshotAsset(s.asset) ? [] : [`${field}.screenshots.${j}.asset: no screenshot "${s.asset}" in this run`])),
+    );
+    if (missing.length > 0) {
+      console.log(`  [write-report] Rejected — ${missing.length} unknown screenshot(s)`);
+      return { success: false, errors: missing, hint: "Use screenshot paths exactly as capture-screenshot returned them." };
+    }
+
+    const unverified = verifyCitations(report);
+    if (unverified.length > 0 && CITATION_MODE === "strict") {
+      console.log(`  [write-report] Rejected — ${unverified.length} unverified claim(s)`);
+      return {
+        success: false,
+        errors: unverified.map((u) => `${u.field}: ${u.reason}`),
+        hint: "Fix the citation, correct the claim to match the source, or remove it, then call write-report again.",
+      };
+    }
+
+    const cited = citedSourceIds(report)
+      .map((id) => getSource(id))
+      .filter((s): s is Source => s !== undefined);
+    const sources = listSources().map(({ id, url, title, scrapedAt }) => ({ id, url, title, scrapedAt }));
+
+    const { output } = getConfig();
+    const jsonPath = path.resolve(process.cwd(), output.json);
+    const filePath = path.resolve(process.cwd(), output.report);
+    const json = JSON.stringify({ ...report, sources, unverifiedClaims: unverified }, null, 2) + "\n";
+    // Screenshots stay in the run's assets/ folder; the report outside the run links to them there
+    const linkFrom = (dir: string) => (asset: string) => path.relative(dir, path.join(getRunDir(), asset)).split(path.sep).join("/");
+    const markdown = renderMarkdown(report, { sources: cited, unverified, assetPath: linkFrom(path.dirname(filePath)) });
+    for (const file of [jsonPath, filePath]) fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(jsonPath, json, "utf-8");
+    fs.writeFileSync(filePath, markdown, "utf-8");
+    // Keep a copy with the run's page snapshots so later runs can be diffed against it
+    writeRunFile("report.json", json);
+    writeRunFile("report.md", renderMarkdown(report, { sources: cited, unverified }));
+    console.log(`  [write-report] Report written to ${filePath} and ${jsonPath}${unverified.length ? ` — ${unverified.length} unverified claim(s) flagged` : ""}`);
+    return { filePath, jsonPath, success: true, unverifiedClaims: unverified.length };
   },
-});
+}));
@@ -0,0 +1,162 @@
+/**
+ * Words sites use for the pages search-for-page looks for. A site may say
+ * "Plans" or "Tarife" rather than "Pricing", so a topic is searched with its
+ * configured keywords plus the synonyms and translations listed here for
+ * common topics. Entries are matched against link text and URL path segments.
+ */
+
+export interface SearchTerm {
+  term: string;
+  /** "keyword" for the term asked for, "synonym" for English alternatives, otherwise a language code */
+  source: "keyword" | "synonym" | string;
+}
+
+interface Vocabulary {
+  synonyms: string[];
+  /** Language code → words used on sites in that language */
+  locales: Record<string, string[]>;
+}
+
+const VOCABULARY: Record<string, Vocabulary> = {
+  pricing: {
+    synonyms: ["pricing", "plans", "prices", "price", "plans and pricing", "cost", "tiers", "buy"],
+    locales: {
+      de: ["preise", "tarife", "pakete", "preismodell", "kosten"],
+      fr: ["tarifs", "prix", "offres", "forfaits", "tarification"],
+      es: ["precios", "planes", "tarifas"],
+      it: ["prezzi", "piani", "tariffe"],
+      nl: ["prijzen", "tarieven", "abonnementen"],
+      pt: ["preços", "planos", "tarifas"],
+      ja: ["料金", "価格", "プラン"],
+    },
+  },
+  features: {
+    synonyms: ["features", "product", "products", "platform", "capabilities", "solutions", "how it works"],
+    locales: {
+      de: ["funktionen", "produkt", "produkte", "plattform", "leistungen", "lösungen"],
+      fr: ["fonctionnalités", "produit", "produits", "plateforme", "solutions"],
+      es: ["funciones", "características", "producto", "productos", "plataforma", "soluciones"],
+      it: ["funzionalità", "prodotto", "prodotti", "piattaforma", "soluzioni"],
+      nl: ["functies", "producten", "oplossingen"],
+      pt: ["recursos", "funcionalidades", "produto", "produtos", "plataforma", "soluções"],
+      ja: ["機能", "製品", "サービス"],
+    },
+  },
+  about: {
+    synonyms: ["about", "about us", "company", "who we are", "our story", "team", "leadership"],
+    locales: {
+      de: ["über uns", "unternehmen", "firma", "team"],
+      fr: ["à propos", "qui sommes-nous", "entreprise", "société", "équipe"],
+      es: ["sobre nosotros", "quiénes somos", "nosotros", "empresa", "equipo"],
+      it: ["chi siamo", "azienda", "società"],
+      nl: ["over ons", "bedrijf"],
+      pt: ["sobre", "sobre nós", "quem somos", "empresa"],
+      ja: ["会社概要", "企業情報", "私たちについて"],
+    },
+  },
+  integrations: {
+    synonyms: ["integrations", "partners", "apps", "marketplace", "ecosystem", "connectors", "plugins", "extensions"],
+    locales: {
+      de: ["integrationen", "partner", "schnittstellen"],
+      fr: ["intégrations", "partenaires", "connecteurs"],
+      es: ["integraciones", "socios", "conectores"],
+      it: ["integrazioni", "partner", "connettori"],
+      nl: ["integraties", "koppelingen"],
+      pt: ["integrações", "parceiros", "conectores"],
+      ja: ["連携", "インテグレーション", "パートナー"],
+    },
+  },
+  launches: {
+    synonyms: ["changelog", "release notes", "releases", "what's new", "updates", "product updates", "news", "newsroom", "blog", "announcements"],
+    locales: {
+      de: ["neuigkeiten", "aktuelles", "versionshinweise", "neuerungen"],
+      fr: ["nouveautés", "actualités", "notes de version"],
+      es: ["novedades", "noticias", "notas de la versión"],
+      it: ["novità", "notizie", "note di rilascio"],
+      nl: ["nieuws", "wat is er nieuw"],
+      pt: ["novidades", "notícias", "notas de versão"],
+      ja: ["お知らせ", "ニュース", "リリースノート", "新機能"],
+    },
+  },
+  docs: {
+    synonyms: ["docs", "documentation", "developers", "api", "api reference", "guides"],
+    locales: {
+      de: ["dokumentation", "entwickler"],
+      fr: ["documentation", "développeurs"],
+      es: ["documentación", "desarrolladores"],
+      it: ["documentazione", "sviluppatori"],
+      nl: ["documentatie", "ontwikkelaars"],
+      pt: ["documentação", "desenvolvedores"],
+      ja: ["ドキュメント", "開発者"],
+    },
+  },
+  customers: {
+    synonyms: ["customers", "case studies", "customer stories", "success stories", "testimonials"],
+    locales: {
+      de: ["kunden", "referenzen", "erfolgsgeschichten"],
+      fr: ["clients", "témoignages", "études de cas"],
+      es: ["clientes", "casos de éxito", "testimonios"],
+      it: ["clienti", "casi di successo"],
+      nl: ["klanten", "klantverhalen"],
+      pt: ["clientes", "casos de sucesso"],
+      ja: ["導入事例", "お客様"],
+    },
+  },
+  security: {
+    synonyms: ["security", "trust", "trust center", "compliance", "privacy"],
+    locales: {
+      de: ["sicherheit", "datenschutz", "compliance"],
+      fr: ["sécurité", "confidentialité", "conformité"],
+      es: ["seguridad", "privacidad", "cumplimiento"],
+      it: ["sicurezza", "privacy", "conformità"],
+      nl: ["beveiliging", "privacy"],
+      pt: ["segurança", "privacidade", "conformidade"],
+      ja: ["セキュリティ", "プライバシー"],
+    },
+  },
+};
+
+/**
+ * Lowercases and strips accents, so "Preços", "precos" and "PRECOS" compare equal.
+ */
+export function normalizeTerm(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+/** Built-in topic names, for the tool description. */
+export const KNOWN_TOPICS = Object.keys(VOCABULARY);
+
+/**
+ * The terms to search for: the keywords first, then the synonyms and locale
+ * words of the matching built-in topic and the configured `locales`. Passing
+ * `languages` keeps only those locales' words (English synonyms are always kept).
+ */
+export function topicTerms(options: {
+  keywords: string[];
+  topic?: string;
+  synonyms?: string[];
+  locales?: Record<string, string[]>;
+  languages?: string[];
+}): SearchTerm[] {
+  // "plans" finds the pricing vocabulary as well as "pricing" does
+  const vocabulary = [options.topic, ...options.keywords]
+    .map((name) => (name ? normalizeTerm(name) : ""))
+    .map((name) => VOCABULARY[name] ?? Object.values(VOCABULARY).find((v) => name && v.synonyms.includes(name)))
+    .find((v) => v !== undefined);
+  const languages = options.languages?.map((l) => l.toLowerCase().split("-")[0]);
+
+  const terms = new Map<string, SearchTerm>();
+  const add = (term: string, source: SearchTerm["source"]) => {
+    const key = normalizeTerm(term);
+    if (key && !terms.has(key)) terms.set(key, { term: key, source });
+  };
+  for (const k of options.keywords) add(k, "keyword");
+  for (const s of [...(options.synonyms ?? []), ...(vocabulary?.synonyms ?? [])]) add(s, "synonym");
+  for (const locales of [options.locales ?? {}, vocabulary?.locales ?? {}]) {
+    for (const [language, words] of Object.entries(locales)) {
+      if (languages && !languages.includes(language.toLowerCase())) continue;
+      for (const w of words) add(w, language.toLowerCase());
+    }
+  }
+  return Array.from(terms.values());
+}
@@ -0,0 +1,322 @@
+import type { ProcessInputStepArgs, ProcessInputStepResult } from "@mastra/core/processors";
+import { isTool } from "./steps";
+
+/**
+ * Per-run accounting: LLM steps and tokens by model, tool calls and their
+ * durations, pages loaded and browser session wall time — plus the run's
+ * budget. Limits are soft for the agent: once one is reached the agent is told
+ * to wrap up and write the report with what it has (see wrapUpWhenOverBudget),
+ * while navigation stops for real once the page limit is used up.
+ */
+
+export interface Budget {
+  /** US dollars of LLM usage */
+  maxCost?: number;
+  /** Input + output tokens across every model */
+  maxTokens?: number;
+  /** Pages opened in the browser (cache hits don't count) */
+  maxPages?: number;
+  /** Wall-clock minutes since the run started */
+  maxMinutes?: number;
+}
+
+/** US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices of the OpenAI models the agent is usually run on. Models not
+// listed here (self-hosted, fake) count as free unless the config prices them.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+};
+
+interface ModelUsage {
+  steps: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface ToolUsage {
+  calls: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+let runStartedAt = Date.now();
+const models = new Map<string, ModelUsage>();
+const toolUsage = new Map<string, ToolUsage>();
+const sessions = new Map<string, { startedAt: number; endedAt?: number }>();
+let pagesLoaded = 0;
+
+let budget: Budget = {};
+let prices: Record<string, ModelPrice> = { ...MODEL_PRICES };
+let budgetHit: string | null = null;
+
+/**
+ * Sets the run's limits and starts its clock, so maxMinutes and the wall time
+ * count from here rather than from process startup.
+ */
+export function configureBudget(limits: Budget, extraPrices: Record<string, ModelPrice> = {}) {
+  for (const [key, value] of Object.entries(limits)) {
+    if (value !== undefined && !(typeof value === "number" && value > 0)) {
+      throw new Error(`Invalid budget ${key} "${value}" — expected a positive number`);
+    }
+  }
+  budget = { ...budget, ...Object.fromEntries(Object.entries(limits).filter(([, v]) => v !== undefined)) };
+  prices = { ...MODEL_PRICES, ...extraPrices };
+  runStartedAt = Date.now();
+}
+
+/** Token counts arrive as plain numbers (LanguageModelV2) or as { total, ... } (V3). */
+function tokenCount(value: unknown): number {
+  if (typeof value === "number") return value;
+  const total = (value as { total?: number } | undefined)?.total;
+  return typeof total === "number" ? total : 0;
+}
+
+type TokenUsage = { inputTokens?: unknown; outputTokens?: unknown };
+
+interface StreamPart {
+  type: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * What meterModel needs from a language model — met by the LanguageModelV2
+ * fake and the V3 models @ai-sdk/openai returns alike.
+ */
+interface MeterableModel {
+  doGenerate(options: never): PromiseLike<{ usage: TokenUsage }>;
+  doStream(options: never): PromiseLike<{ stream: ReadableStream<StreamPart> }>;
+}
+
+export function recordModelCall(modelId: string, usage: TokenUsage | undefined) {
+  const m = models.get(modelId) ?? { steps: 0, inputTokens: 0, outputTokens: 0 };
+  m.steps++;
+  m.inputTokens += tokenCount(usage?.inputTokens);
+  m.outputTokens += tokenCount(usage?.outputTokens);
+  models.set(modelId, m);
+}
+
+/**
+ * Wraps a language model so every call — generate or stream, from any agent —
+ * is counted against its model ID.
+ */
+export function meterModel<T extends MeterableModel>(model: T, modelId: string): T {
+  return new Proxy(model, {
+    get(target, prop, receiver) {
+      // Call options go to the model untouched, whatever its spec version
+      if (prop === "doGenerate") {
+        return async (options: never) => {
+          const result = await target.doGenerate(options);
+          recordModelCall(modelId, result.usage);
+          return result;
+        };
+      }
+      if (prop === "doStream") {
+        return async (options: never) => {
+          const result = await target.doStream(options);
+          const counted = result.stream.pipeThrough(
+            new TransformStream<StreamPart, StreamPart>({
+              transform(part, controller) {
+                if (part.type === "finish") recordModelCall(modelId, part.usage);
+                controller.enqueue(part);
+              },
+            }),
+          );
+          return { ...result, stream: counted };
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * Wraps a tool's execute in place so its calls and durations are counted,
+ * whether an agent or the pipeline calls it.
+ */
+export function meterTool<TIn, TContext, TOut, T extends { id: string; execute?: (input: TIn, context: TContext) => Promise<TOut> }>(
+  tool: T & { execute?: (input: TIn, context: TContext) => Promise<TOut> },
+): T {
+  const execute = tool.execute;
+  if (!execute) return tool;
+  tool.execute = (async (input: TIn, context: TContext) => {
+    const start = Date.now();
+    try {
+      return await execute.call(tool, input, context);
+    } finally {
+      const ms = Date.now() - start;
+      const t = toolUsage.get(tool.id) ?? { calls: 0, totalMs: 0, maxMs: 0 };
+      t.calls++;
+      t.totalMs += ms;
+      t.maxMs = Math.max(t.maxMs, ms);
+      toolUsage.set(tool.id, t);
+    }
+  }) as T["execute"];
+  return tool;
+}
+
+/** Counts a page opened in the browser. Throws once the page budget is used up. */
+export function recordPageLoad() {
+  if (budget.maxPages !== undefined && pagesLoaded >= budget.maxPages) {
+    throw new Error(`Page budget of ${budget.maxPages} reached — no more pages are loaded this run`);
+  }
+  pagesLoaded++;
+}
+
+export function recordSessionStart(id: string) {
+  sessions.set(id, { startedAt: Date.now() });
+}
+
+export function recordSessionEnd(id: string) {
+  const s = sessions.get(id);
+  if (s && !s.endedAt) s.endedAt = Date.now();
+}
+
+function costOf(modelId: string, m: ModelUsage): number | null {
+  const price = prices[modelId];
+  if (!price) return null;
+  return (m.inputTokens * price.input + m.outputTokens * price.output) / 1_000_000;
+}
+
+function totals() {
+  let tokens = 0;
+  let cost = 0;
+  for (const [id, m] of models) {
+    tokens += m.inputTokens + m.outputTokens;
+    cost += costOf(id, m) ?? 0;
+  }
+  const sessionMs = [...sessions.values()].reduce((sum, s) => sum + ((s.endedAt ?? Date.now()) - s.startedAt), 0);
+  return { tokens, cost, sessionMs, elapsedMs: Date.now() - runStartedAt };
+}
+
+/**
+ * The first budget limit the run has reached, or null. Logged once, the first
+ * time it is seen.
+ */
+export function overBudget(): string | null {
+  const t = totals();
+  let reason: string | null = null;
+  if (budget.maxCost !== undefined && t.cost >= budget.maxCost) {
+    reason = `cost limit of $${budget.maxCost.toFixed(2)} reached ($${t.cost.toFixed(4)} spent)`;
+  } else if (budget.maxTokens !== undefined && t.tokens >= budget.maxTokens) {
+    reason = `token limit of ${budget.maxTokens.toLocaleString("en-US")} reached (${t.tokens.toLocaleString("en-US")} used)`;
+  } else if (budget.maxPages !== undefined && pagesLoaded >= budget.maxPages) {
+    reason = `page limit of ${budget.maxPages} reached`;
+  } else if (budget.maxMinutes !== undefined && t.elapsedMs >= budget.maxMinutes * 60000) {
+    reason = `time limit of ${budget.maxMinutes} min reached`;
+  }
+  if (reason && !budgetHit) {
+    budgetHit = reason;
+    console.log(`\n[Budget] ${reason} — telling the agent to wrap up`);
+  }
+  return reason;
+}
+
+/**
+ * True for a write-report result that wrote the report. Steps seen by
+ * prepareStep carry tool outputs as the model sees them, `{ type: "json", value }`.
+ */
+function reportAccepted(output: unknown): boolean {
+  const value = typeof output === "object" && output !== null && "value" in output ? output.value : output;
+  return typeof value === "object" && value !== null && "success" in value && value.success === true;
+}
+
+/**
+ * prepareStep hook for agent runs: once a budget limit is reached, the agent is
+ * told to stop researching. With `canWriteReport` it is steered to write-report
+ * (once) with what it has; otherwise it is asked for its closing summary.
+ */
+export function wrapUpWhenOverBudget(canWriteReport: boolean) {
+  return ({ steps, systemMessages }: ProcessInputStepArgs): ProcessInputStepResult | undefined => {
+    const reason = overBudget();
+    if (!reason) return undefined;
+
+    const reportWritten = steps.some((step) =>
+      step.toolResults.some((part) => isTool(part.toolName, { id: "write-report" }) && reportAccepted(part.output)),
+    );
+    if (!canWriteReport || reportWritten) {
+      const instruction = `The run budget is used up (${reason}). Stop researching and reply with a short summary of what you found.`;
+      return { systemMessages: [...systemMessages, { role: "system", content: instruction }], activeTools: [], toolChoice: "none" };
+    }
+    const instruction =
+      `The run budget is used up (${reason}). Stop researching and call write-report now with what you have gathered — ` +
+      `use "Unknown" for anything you didn't get to.`;
+    return {
+      systemMessages: [...systemMessages, { role: "system", content: instruction }],
+      activeTools: ["writeReport"],
+      toolChoice: { type: "tool", toolName: "writeReport" },
+    };
+  };
+}
+
+function formatMs(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return ms < 10000 ? `${(ms / 1000).toFixed(1)}s` : `${s}s`;
+  return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s`;
+}
+
+const fmt = (n: number) => n.toLocaleString("en-US");
+const dollars = (n: number | null) => (n === null ? "unpriced" : `$${n.toFixed(4)}`);
+
+/** Machine-readable copy of the summary, saved with the run as usage.json. */
+export function usageSnapshot() {
+  const t = totals();
+  return {
+    models: Object.fromEntries([...models].map(([id, m]) => [id, { ...m, cost: costOf(id, m) }])),
+    tools: Object.fromEntries(toolUsage),
+    pagesLoaded,
+    browserSessions: sessions.size,
+    browserSessionMs: t.sessionMs,
+    wallMs: t.elapsedMs,
+    totalTokens: t.tokens,
+    totalCost: t.cost,
+    budget,
+    budgetHit,
+  };
+}
+
+/** The end-of-run summary as markdown tables, printed and saved with the run as usage.md. */
+export function usageSummary(): string {
+  const t = totals();
+  const lines = ["## Run usage", "", "| Model | Steps | Input tokens | Output tokens | Cost |", "|---|---:|---:|---:|---:|"];
+  let steps = 0;
+  for (const [id, m] of models) {
+    steps += m.steps;
+    lines.push(`| ${id} | ${m.steps} | ${fmt(m.inputTokens)} | ${fmt(m.outputTokens)} | ${dollars(costOf(id, m))} |`);
+  }
+  const input = [...models.values()].reduce((sum, m) => sum + m.inputTokens, 0);
+  lines.push(`| **Total** | ${steps} | ${fmt(input)} | ${fmt(t.tokens - input)} | ${dollars(t.cost)} |`, "");
+
+  if (toolUsage.size > 0) {
+    lines.push("| Tool | Calls | Total time | Avg | Slowest |", "|---|---:|---:|---:|---:|");
+    for (const [id, u] of [...toolUsage].sort((a, b) => b[1].totalMs - a[1].totalMs)) {
+      lines.push(`| ${id} | ${u.calls} | ${formatMs(u.totalMs)} | ${formatMs(u.totalMs / u.calls)} | ${formatMs(u.maxMs)} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push(
+    `- **Pages loaded:** ${pagesLoaded}${budget.maxPages !== undefined ? ` of ${budget.maxPages}` : ""}`,
+    `- **Browser session time:** ${formatMs(t.sessionMs)} (${sessions.size} session${sessions.size === 1 ? "" : "s"})`,
+    `- **Wall time:** ${formatMs(t.elapsedMs)}`,
+  );
+  const limits = [
+    budget.maxCost !== undefined && `$${budget.maxCost.toFixed(2)}`,
+    budget.maxTokens !== undefined && `${fmt(budget.maxTokens)} tokens`,
+    budget.maxPages !== undefined && `${budget.maxPages} pages`,
+    budget.maxMinutes !== undefined && `${budget.maxMinutes} min`,
+  ].filter(Boolean);
+  if (limits.length > 0) {
+    lines.push(`- **Budget:** ${limits.join(", ")}${budgetHit ? ` — ${budgetHit}, run wrapped up early` : ""}`);
+  }
+  return lines.join("\n") + "\n";
+}